@@ -0,0 +1,94 @@
+/**
+ * Backtest the configured strategy over a recorded market dataset, offline.
+ *
+ * Usage:
+ *   bun run backtest.ts                                  # fixtures/backtest with config.json settings
+ *   bun run backtest.ts --data logs/market-data          # a recorded dataset (file or directory)
+ *   bun run backtest.ts --strategy contrarian-fade
+ *   bun run backtest.ts --min-entry-price 0.70 --entry-window 4-12 --min-edge 0.03
+ *   bun run backtest.ts --sizing kelly                   # sizing mode: fixed, fraction or kelly
+ *   bun run backtest.ts --json                           # machine-readable output
+ *   bun run backtest.ts --verbose                        # print every simulated order
+ *
+ * Simulated trades are written to logs/backtest-trades.jsonl (override with --out).
+ */
+
+import { readFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { configFromFile } from "./src/config.js";
+import { loadDataset } from "./src/dataset.js";
+import { runBacktest } from "./src/backtest.js";
+import { getStrategy } from "./src/strategies/index.js";
+import { createLogger } from "./src/logger.js";
+
+const args = process.argv.slice(2);
+const flag = (name: string): string | undefined => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const dataPath = flag("--data") ?? "./fixtures/backtest";
+const outFile = flag("--out") ?? "./logs/backtest-trades.jsonl";
+const outputJson = args.includes("--json");
+const verbose = args.includes("--verbose");
+
+const configFile = JSON.parse(readFileSync("./config.json", "utf-8"));
+const config = configFromFile({ ...configFile, enabled: true }, {});
+
+if (flag("--strategy")) config.strategy = flag("--strategy")!;
+if (flag("--min-entry-price")) config.minEntryPrice = parseFloat(flag("--min-entry-price")!);
+if (flag("--min-edge")) config.minEdge = parseFloat(flag("--min-edge")!);
+if (flag("--sizing")) config.sizing.mode = flag("--sizing") as typeof config.sizing.mode;
+if (flag("--entry-window")) {
+  const [start, end] = flag("--entry-window")!.split("-").map(Number);
+  config.entryWindowMinStart = start;
+  config.entryWindowMinEnd = end;
+}
+
+try {
+  getStrategy(config.strategy);
+  const records = loadDataset(dataPath);
+  mkdirSync(dirname(outFile), { recursive: true });
+
+  const bt = await runBacktest({
+    config,
+    records,
+    tradeLogFile: outFile,
+    logger: verbose ? createLogger({ level: "debug" }) : undefined,
+  });
+  const s = bt.summary;
+
+  if (outputJson) {
+    console.log(JSON.stringify({ strategy: config.strategy, markets: bt.markets, ticks: bt.ticks, unresolvedMarkets: bt.unresolvedMarkets, summary: s, trades: bt.results }, null, 2));
+    process.exit(0);
+  }
+
+  const usd = (x: number) => `${x < 0 ? "-" : ""}$${Math.abs(x).toFixed(2)}`;
+
+  console.log("");
+  console.log(`  Backtest: ${config.strategy} over ${bt.markets} market(s), ${bt.ticks} tick(s)`);
+  console.log("  ──────────────────────────────────────────");
+  console.log(`  Trades:        ${s.trades} closed, ${s.open} open`);
+  console.log(`  Win rate:      ${(s.winRate * 100).toFixed(1)}% (${s.wins}/${s.trades})`);
+  console.log(`  PnL:           ${usd(s.pnl)}`);
+  console.log(`  Max drawdown:  ${usd(s.maxDrawdown)}`);
+  if (bt.unresolvedMarkets > 0) {
+    console.log(`  Unresolved:    ${bt.unresolvedMarkets} market(s) had no resolution record`);
+  }
+
+  const hours = Object.keys(s.byHour).map(Number).sort((a, b) => a - b);
+  if (hours.length > 0) {
+    console.log("");
+    console.log("  Hour (UTC)  Trades  Win rate       PnL");
+    for (const h of hours) {
+      const row = s.byHour[h];
+      console.log(
+        `  ${String(h).padStart(2, "0")}:00     ${String(row.trades).padStart(6)}  ${`${((row.wins / row.trades) * 100).toFixed(1)}%`.padStart(8)}  ${usd(row.pnl).padStart(9)}`,
+      );
+    }
+  }
+  console.log("");
+} catch (err: any) {
+  console.error(`Error: ${err.message || err}`);
+  process.exit(1);
+}
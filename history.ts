@@ -0,0 +1,113 @@
+/**
+ * Historical market outcomes: backfill a local store from Gamma and the CLOB,
+ * then report leader base rates from it offline.
+ *
+ * Usage:
+ *   bun run history.ts backfill --from 2026-01-01 --to 2026-02-01   # every configured series
+ *   bun run history.ts backfill --from 2026-01-01 --series eth-15m  # --to defaults to now
+ *   bun run history.ts report                                       # minute-5 leader base rates
+ *   bun run history.ts report --at-minute 8 --bucket 0.1 --series btc-15m
+ *   bun run history.ts report --from 2026-01-15 --json
+ *
+ * The store defaults to logs/market-history.jsonl (override with --store).
+ * Backfill skips markets already stored as resolved, so it can be re-run to
+ * extend a range. Report reads only the store — no network.
+ */
+
+import { readFileSync } from "fs";
+import { configFromFile } from "./src/config.js";
+import { SERIES_PRESETS } from "./src/market-series.js";
+import { backfillHistory, computeBaseRates, loadHistory, BaseRateGroup } from "./src/market-history.js";
+import { createLogger } from "./src/logger.js";
+import { parseDate, parsePositive } from "./src/cli-args.js";
+
+const args = process.argv.slice(2);
+const command = args[0];
+const flag = (name: string): string | undefined => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const store = flag("--store") ?? "./logs/market-history.jsonl";
+const outputJson = args.includes("--json");
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// --from/--to as Unix seconds, the store's time unit
+const parseDateSec = (raw: string, endOfDay: boolean) => Math.floor(parseDate(raw, endOfDay) / 1000);
+
+const pct = (wins: number, n: number) => (n > 0 ? `${((wins / n) * 100).toFixed(1)}%` : "-");
+
+function printGroups(title: string, groups: [label: string, group: BaseRateGroup][]): void {
+  if (groups.length === 0) return;
+  console.log("");
+  console.log(`  ${title.padEnd(12)} Markets  Leader wins  Avg price    Edge`);
+  for (const [label, g] of groups) {
+    const edge = g.leaderWins / g.markets - g.avgLeaderPrice;
+    console.log(
+      `  ${label.padEnd(12)} ${String(g.markets).padStart(7)}  ${pct(g.leaderWins, g.markets).padStart(11)}  ${`$${g.avgLeaderPrice.toFixed(3)}`.padStart(9)}  ${`${edge >= 0 ? "+" : ""}${edge.toFixed(3)}`.padStart(6)}`,
+    );
+  }
+}
+
+try {
+  const configFile = JSON.parse(readFileSync("./config.json", "utf-8"));
+  const config = configFromFile(configFile, {});
+  const seriesId = flag("--series");
+  const series = seriesId
+    ? [config.series.find((s) => s.id === seriesId) ?? SERIES_PRESETS.find((s) => s.id === seriesId)].filter((s) => s !== undefined)
+    : config.series;
+  if (series.length === 0) throw new Error(`Unknown series: ${seriesId}`);
+
+  if (command === "backfill") {
+    if (!flag("--from")) throw new Error("backfill needs --from");
+    const from = parseDateSec(flag("--from")!, false);
+    const to = flag("--to") ? parseDateSec(flag("--to")!, true) : Math.floor(Date.now() / 1000);
+    const log = createLogger({ level: config.logging.level }, "history");
+
+    for (const s of series) {
+      log.info(`Backfilling ${s.id} from ${new Date(from * 1000).toISOString()} to ${new Date(to * 1000).toISOString()} into ${store}`);
+      const r = await backfillHistory(s, from, to, store, log.child(s.id));
+      log.info(`${s.id}: ${r.fetched} fetched, ${r.cached} already stored, ${r.missing} slot(s) with no market`);
+    }
+  } else if (command === "report") {
+    const atMinute = flag("--at-minute") ? parsePositive("--at-minute", flag("--at-minute")!) : 5;
+    const bucket = flag("--bucket") ? parsePositive("--bucket", flag("--bucket")!) : 0.05;
+    if (bucket > 1) throw new Error(`--bucket must be at most 1, got ${bucket}`);
+    const from = flag("--from") ? parseDateSec(flag("--from")!, false) : -Infinity;
+    const to = flag("--to") ? parseDateSec(flag("--to")!, true) : Infinity;
+    const ids = new Set(series.map((s) => s.id));
+
+    const markets = Array.from(loadHistory(store).values()).filter(
+      (m) => ids.has(m.series) && m.startTime >= from && m.startTime < to,
+    );
+    const rates = computeBaseRates(markets, atMinute, bucket);
+
+    if (outputJson) {
+      console.log(JSON.stringify({ store, series: Array.from(ids), ...rates }, null, 2));
+      process.exit(0);
+    }
+
+    const o = rates.overall;
+    console.log("");
+    console.log(`  Base rates: ${Array.from(ids).join(", ")} leader at minute ${atMinute} (${store})`);
+    console.log("  ──────────────────────────────────────────");
+    console.log(`  Markets:       ${rates.markets} (${rates.skipped} resolved without a price at minute ${atMinute})`);
+    console.log(`  Leader wins:   ${pct(o.leaderWins, o.markets)} (${o.leaderWins}/${o.markets})`);
+    console.log(`  Avg price:     $${o.avgLeaderPrice.toFixed(3)}`);
+
+    printGroups("Leader price", Object.keys(rates.byPriceBucket).sort().map((k) => [k, rates.byPriceBucket[k]]));
+    printGroups(
+      "Hour (UTC)",
+      Object.keys(rates.byHour).map(Number).sort((a, b) => a - b).map((h) => [`${String(h).padStart(2, "0")}:00`, rates.byHour[h]]),
+    );
+    printGroups("Weekday", Object.keys(rates.byWeekday).map(Number).sort((a, b) => a - b).map((d) => [WEEKDAYS[d], rates.byWeekday[d]]));
+    console.log("");
+    console.log("  Edge = leader win rate minus average leader price (expected profit per $1 share).");
+    console.log("");
+  } else {
+    throw new Error("Usage: bun run history.ts backfill --from <date> [--to <date>] | report [--at-minute N]");
+  }
+} catch (err: any) {
+  console.error(`Error: ${err.message || err}`);
+  process.exit(1);
+}
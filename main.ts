@@ -1,8 +1,10 @@
 /**
- * Standalone Polymarket BTC 15-Minute Trader
+ * Standalone Polymarket Up/Down Trader (BTC 15-minute markets by default;
+ * see "series" in config.json for other assets and durations)
  *
  * Usage:
  *   bun run main.ts                          # uses config.json settings
+ *   bun run main.ts --clear-killswitch       # clear a persisted killswitch, then start
  *   POLYMARKET_PRIVATE_KEY=0x... bun run main.ts   # override key from .env
  *
  * Configuration:
@@ -13,41 +15,54 @@
  *   POLYMARKET_PRIVATE_KEY   - Polygon wallet private key
  *   POLYMARKET_FUNDER_ADDRESS - Proxy wallet address from Polymarket
  *   POLYGON_RPC_URL          - Polygon RPC endpoint (default: https://polygon-rpc.com)
+ *   CONTROL_API_TOKEN        - Bearer token for the local control API (see src/control-api.ts)
+ *   TELEGRAM_BOT_TOKEN       - Bot token for a telegram notification sink without botToken
  */
 
 import "dotenv/config";
 import { readFileSync } from "fs";
-import { resolveConfig } from "./src/config.js";
+import { configFromFile } from "./src/config.js";
 import { initClient } from "./src/client.js";
-import { startService, stopService } from "./src/trader-service.js";
+import { startService, stopService, applyTradingMode } from "./src/trader-service.js";
+import { getStrategy } from "./src/strategies/index.js";
+import { clearKillswitch, getGuardrailState } from "./src/guardrails.js";
 import { startRedemptionTimer, stopRedemptionTimer } from "./src/redeemer.js";
+import { startControlApi, stopControlApi } from "./src/control-api.js";
+import { startMetricsServer, stopMetricsServer } from "./src/metrics.js";
+import { startNotifier, stopNotifier } from "./src/notifier.js";
+import { checkApprovals } from "./src/approvals.js";
+import { connectSigner } from "./src/wallet-exec.js";
+import { createLogger } from "./src/logger.js";
 
 const env = process.env;
 
 // Load config from config.json
 const configFile = JSON.parse(readFileSync("./config.json", "utf-8"));
 
-const config = resolveConfig({
-  privateKey: env.POLYMARKET_PRIVATE_KEY || "",
-  funderAddress: env.POLYMARKET_FUNDER_ADDRESS || "",
-  signatureType: configFile.signatureType ?? 1,
-  enabled: configFile.enabled ?? true,
-  dryRun: !(configFile.live ?? false),
-  maxOrderSize: configFile.maxOrderSize ?? 10,
-  minEntryPrice: configFile.minEntryPrice ?? 0.60,
-  entryWindowMinStart: configFile.entryWindowStart ?? 5,
-  entryWindowMinEnd: configFile.entryWindowEnd ?? 10,
-  tickIntervalSec: configFile.tickInterval ?? 30,
-});
+const config = configFromFile(configFile, env);
 
-const log = (...args: any[]) => console.log(new Date().toISOString(), ...args);
+const log = createLogger({
+  level: config.logging.level,
+  file: config.logging.file ? { dir: config.logging.dir, maxFileMB: config.logging.maxFileMB, prefix: "bot" } : null,
+});
 
-log("=== Polymarket BTC 15m Trader ===");
-log(`Mode: ${config.dryRun ? "DRY RUN" : "LIVE TRADING"}`);
-log(`Trading: ${config.enabled ? "ENABLED" : "DISABLED"}`);
-log(`Tick interval: ${config.tickIntervalSec}s`);
-log(`Max order: $${config.maxOrderSize}`);
-log(`Entry window: ${config.entryWindowMinStart}-${config.entryWindowMinEnd}min | Min price: $${config.minEntryPrice}`);
+log.info("=== Polymarket Up/Down Trader ===");
+log.info(`Mode: ${config.dryRun ? "DRY RUN" : "LIVE TRADING"}`);
+log.info(`Trading: ${config.enabled ? "ENABLED" : "DISABLED"}`);
+let strategyDescription: string;
+try {
+  strategyDescription = getStrategy(config.strategy).description;
+} catch (err: any) {
+  console.error(`Error: ${err.message}`);
+  process.exit(1);
+}
+log.info(`Strategy: ${config.strategy} — ${strategyDescription}`);
+log.info(`Series: ${config.series.map((s) => `${s.id} (${s.asset}, ${s.durationSec / 60}min)`).join(", ")}`);
+log.info(`Tick interval: ${config.tickIntervalSec}s`);
+log.info(`Max order: $${config.maxOrderSize} | Max exposure: $${config.maxPositionSize} | Max daily loss: $${config.maxDailyLoss} | Max trades/hr: ${config.maxTradesPerHour}`);
+log.info(`Entry window: ${config.entryWindowMinStart}-${config.entryWindowMinEnd}min | Min price: $${config.minEntryPrice} | Min edge: ${config.minEdge ?? "off"}`);
+log.info(`Take profit: ${(config.takeProfitPct * 100).toFixed(0)}% | Profit lock: >${(config.profitLockPct * 100).toFixed(0)}% with <${config.profitLockMinutes}min left`);
+log.info(`Stop loss: ${config.stopLossPct !== null ? `-${(config.stopLossPct * 100).toFixed(0)}%` : "off"} | Floor: ${config.stopLossPrice !== null ? `$${config.stopLossPrice}` : "off"}${config.stopLossWithinMinutes !== null ? ` | only with <=${config.stopLossWithinMinutes}min left` : ""}`);
 
 if (!config.privateKey || !config.funderAddress ||
     config.privateKey === "0x..." || config.funderAddress === "0x...") {
@@ -63,30 +78,87 @@ if (!config.privateKey || !config.funderAddress ||
   process.exit(1);
 }
 
+// Live trading needs the exchange contracts approved to move USDC and outcome
+// tokens; without them every order fails
+if (!config.dryRun) {
+  try {
+    const missing = (await checkApprovals(config, connectSigner(config))).filter((a) => !a.approved);
+    if (missing.length > 0) {
+      console.error(`\nError: Missing token approvals: ${missing.map((a) => `${a.token} → ${a.spender}`).join(", ")}`);
+      console.error("Run `bun run setup-approvals` to grant them, or set \"live\": false to paper-trade.");
+      process.exit(1);
+    }
+    log.info("Token approvals in place");
+  } catch (err: any) {
+    console.error(`Failed to check token approvals: ${err.message || err}`);
+    console.error("Not going live without them — check POLYGON_RPC_URL, or run `bun run setup-approvals`.");
+    process.exit(1);
+  }
+}
+
 // Initialize Polymarket client
 try {
   await initClient(config);
-  log("Polymarket client initialized successfully");
+  log.info("Polymarket client initialized successfully");
 } catch (err: any) {
   console.error("Failed to initialize Polymarket client:", err.message);
   process.exit(1);
 }
 
+// Dry run = paper trading: keep its trades and guardrail state apart from live history
+if (config.dryRun) {
+  log.info(`Paper trading: ledger ${config.paper.ledgerFile}, starting balance $${config.paper.startingBalance}, max slippage $${config.paper.maxSlippage}`);
+}
+
+// Alerts (fills, killswitch, redemptions, errors, daily summary); started
+// before guardrail state loads so a killswitch tripped from here on is sent
+if (config.notifications.enabled) {
+  startNotifier(config.notifications, log.child("notify"));
+}
+
+// Select the ledger for this mode and restore guardrail state (open positions,
+// killswitch) from disk + the trade log
+applyTradingMode(config, log.child("service"));
+
+if (process.argv.includes("--clear-killswitch")) {
+  if (getGuardrailState().killswitch) {
+    clearKillswitch();
+    log.info("Killswitch cleared by operator (--clear-killswitch)");
+  } else {
+    log.info("--clear-killswitch given but killswitch was not active");
+  }
+} else if (getGuardrailState().killswitch) {
+  log.warn("Killswitch is active — no orders will be placed. Restart with --clear-killswitch to resume.");
+}
+
 // Start the trading loop
-startService(config, log);
+startService(config, log.child("service"));
 
 // Start the standalone redemption timer (first sweep in 30s, then every 45min)
-startRedemptionTimer(config.privateKey, config.funderAddress, log);
+startRedemptionTimer(config, log.child("redeemer"));
+
+// Local control API (status, pause/resume, dry-run, killswitch, redemption)
+if (config.control.enabled) {
+  startControlApi(config, log.child("control"));
+}
+
+// Prometheus /metrics exporter
+if (config.metrics.enabled) {
+  startMetricsServer(config.metrics, log.child("metrics"));
+}
 
 // Graceful shutdown
 const shutdown = () => {
-  log("Shutting down...");
-  stopService(log);
+  log.info("Shutting down...");
+  stopService(log.child("service"));
   stopRedemptionTimer();
+  stopControlApi();
+  stopMetricsServer();
+  stopNotifier();
   process.exit(0);
 };
 
 process.on("SIGINT", shutdown);
 process.on("SIGTERM", shutdown);
 
-log("Bot running. Press Ctrl+C to stop.\n");
+log.info("Bot running. Press Ctrl+C to stop.");
@@ -0,0 +1,33 @@
+/**
+ * Send a test notification to every sink configured under "notifications"
+ * in config.json, ignoring routing, rate limits and dedup.
+ *
+ * Usage:
+ *   bun run notify.ts                       # default test message
+ *   bun run notify.ts "Hello from the bot"
+ *
+ * Point a sink's url (or a telegram sink's apiBase) at a local HTTP server
+ * to check the payloads without sending anything out.
+ */
+
+import "dotenv/config";
+import { readFileSync } from "fs";
+import { configFromFile } from "./src/config.js";
+import { sendTestNotification } from "./src/notifier.js";
+
+const message = process.argv.slice(2).join(" ") || "Test notification from the Polymarket BTC 15m trader";
+const configFile = JSON.parse(readFileSync("./config.json", "utf-8"));
+const config = configFromFile(configFile);
+
+if (config.notifications.sinks.length === 0) {
+  console.error('No sinks configured — add some under "notifications.sinks" in config.json');
+  process.exit(1);
+}
+
+const results = await sendTestNotification(config.notifications, message);
+let failed = 0;
+for (const r of results) {
+  if (r.error) failed++;
+  console.log(`  ${r.sink.padEnd(10)} ${r.error ? `FAILED: ${r.error}` : "sent"}`);
+}
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,60 @@
+/**
+ * Standalone market data recorder — records without trading.
+ *
+ * Usage:
+ *   bun run record.ts           # snapshot every series every tickInterval seconds into recorder.dir
+ *
+ * Uses public CLOB endpoints only; no credentials needed. To record while
+ * trading instead, set "recorder": { "enabled": true } in config.json.
+ */
+
+import { readFileSync } from "fs";
+import { configFromFile } from "./src/config.js";
+import { initReadOnlyClient } from "./src/client.js";
+import { discoverCurrentMarket } from "./src/market-discovery.js";
+import { recordMarket } from "./src/recorder.js";
+import { createLogger } from "./src/logger.js";
+
+const configFile = JSON.parse(readFileSync("./config.json", "utf-8"));
+const config = configFromFile(configFile, {});
+
+const log = createLogger({
+  level: config.logging.level,
+  file: config.logging.file ? { dir: config.logging.dir, maxFileMB: config.logging.maxFileMB, prefix: "record" } : null,
+}, "record");
+const recorderLog = log.child("recorder");
+
+initReadOnlyClient();
+
+log.info(`=== Market data recorder ===`);
+log.info(`Writing to ${config.recorder.dir} every ${config.tickIntervalSec}s (max ${config.recorder.maxFileMB}MB per file, ${config.recorder.depthLevels} book levels)`);
+
+let count = 0;
+
+const tick = async () => {
+  for (const series of config.series) {
+    try {
+      const market = await discoverCurrentMarket(series);
+      if (!market || market.closed) {
+        log.info(`No active ${series.id} market`);
+        continue;
+      }
+      await recordMarket(market, config.recorder, recorderLog);
+      if (++count % 30 === 0) log.info(`${count} snapshots recorded`);
+    } catch (err: any) {
+      log.error(`Tick failed: ${err.message || err}`, { series: series.id });
+    }
+  }
+};
+
+tick();
+const timer = setInterval(tick, config.tickIntervalSec * 1000);
+
+const shutdown = () => {
+  clearInterval(timer);
+  log.info(`Recorder stopped after ${count} snapshots`);
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
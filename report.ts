@@ -0,0 +1,133 @@
+/**
+ * PnL and performance report over the trade log.
+ *
+ * Usage:
+ *   bun run report.ts                                    # trades.jsonl, all time
+ *   bun run report.ts --paper                            # the paper-trading ledger
+ *   bun run report.ts --file logs/backtest-trades.jsonl  # any trade log
+ *   bun run report.ts --from 2026-02-01 --to 2026-02-07  # entry date range (UTC, inclusive)
+ *   bun run report.ts --json                             # summary + per-trade results
+ *   bun run report.ts --csv                              # one row per trade
+ *
+ * Buys are joined to their sells and resolutions by slug; fill corrections
+ * are applied. Reads only — never writes to the trade log.
+ */
+
+import { readFileSync } from "fs";
+import { configFromFile } from "./src/config.js";
+import { readTradeLog, setTradeLogFile } from "./src/trade-log.js";
+import { buildTradeResults, summarizeResults, GroupStats, TradeResult } from "./src/performance.js";
+import { parseDate } from "./src/cli-args.js";
+
+const args = process.argv.slice(2);
+const flag = (name: string): string | undefined => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const outputJson = args.includes("--json");
+const outputCsv = args.includes("--csv");
+
+const usd = (x: number) => `${x < 0 ? "-" : ""}$${Math.abs(x).toFixed(2)}`;
+const pct = (wins: number, trades: number) => (trades > 0 ? `${((wins / trades) * 100).toFixed(1)}%` : "-");
+
+function printGroups(title: string, groups: Record<string, GroupStats>, keys: string[]): void {
+  if (keys.length === 0) return;
+  console.log("");
+  console.log(`  ${title.padEnd(12)} Trades  Win rate       PnL`);
+  for (const k of keys) {
+    const g = groups[k];
+    console.log(`  ${k.padEnd(12)} ${String(g.trades).padStart(6)}  ${pct(g.wins, g.trades).padStart(8)}  ${usd(g.pnl).padStart(9)}`);
+  }
+}
+
+function toCsv(results: TradeResult[]): string {
+  const header = ["entryTime", "slug", "outcome", "strategy", "entryPrice", "size", "cost", "proceeds", "payout", "pnl", "status", "resolved"];
+  const rows = results.map((r) =>
+    [
+      new Date(r.entryTime).toISOString(),
+      r.slug,
+      r.outcome,
+      r.strategy ?? "",
+      r.entryPrice,
+      r.size,
+      r.cost.toFixed(4),
+      r.proceeds.toFixed(4),
+      r.payout.toFixed(4),
+      r.pnl.toFixed(4),
+      r.status,
+      r.resolved ?? "",
+    ].join(","),
+  );
+  return [header.join(","), ...rows].join("\n");
+}
+
+try {
+  let file = flag("--file") ?? "./trades.jsonl";
+  if (args.includes("--paper")) {
+    const configFile = JSON.parse(readFileSync("./config.json", "utf-8"));
+    file = configFromFile(configFile, {}).paper.ledgerFile;
+  }
+  const from = flag("--from") ? parseDate(flag("--from")!, false) : -Infinity;
+  const to = flag("--to") ? parseDate(flag("--to")!, true) : Infinity;
+
+  setTradeLogFile(file);
+  const results = buildTradeResults(readTradeLog())
+    .filter((r) => r.entryTime >= from && r.entryTime < to)
+    .sort((a, b) => a.entryTime - b.entryTime);
+  const s = summarizeResults(results);
+  const open = results.filter((r) => r.status === "open");
+
+  if (outputCsv) {
+    console.log(toCsv(results));
+    process.exit(0);
+  }
+
+  if (outputJson) {
+    console.log(JSON.stringify({ file, summary: s, trades: results }, null, 2));
+    process.exit(0);
+  }
+
+  const range = results.length > 0
+    ? `${new Date(results[0].entryTime).toISOString().slice(0, 10)} to ${new Date(results[results.length - 1].entryTime).toISOString().slice(0, 10)}`
+    : "no trades";
+
+  console.log("");
+  console.log(`  Report: ${file} (${range})`);
+  console.log("  ──────────────────────────────────────────");
+  console.log(`  Trades:        ${s.trades} closed, ${s.open} open`);
+  console.log(`  Win rate:      ${pct(s.wins, s.trades)} (${s.wins}/${s.trades})`);
+  console.log(`  Realized PnL:  ${usd(s.pnl)}`);
+  console.log(`  Max drawdown:  ${usd(s.maxDrawdown)}`);
+
+  printGroups("Outcome", s.byOutcome, ["Up", "Down"].filter((k) => s.byOutcome[k]));
+  printGroups("Entry price", s.byPriceBucket, Object.keys(s.byPriceBucket).sort());
+  const hours = Object.keys(s.byHour).map(Number).sort((a, b) => a - b);
+  printGroups(
+    "Hour (UTC)",
+    Object.fromEntries(hours.map((h) => [`${String(h).padStart(2, "0")}:00`, s.byHour[h]])),
+    hours.map((h) => `${String(h).padStart(2, "0")}:00`),
+  );
+
+  if (s.equity.length > 0) {
+    console.log("");
+    console.log("  Entry time (UTC)   Market                             PnL     Equity   Drawdown");
+    for (const p of s.equity) {
+      console.log(
+        `  ${new Date(p.time).toISOString().slice(0, 16).replace("T", " ")}   ${p.slug.padEnd(30)} ${usd(p.pnl).padStart(9)}  ${usd(p.equity).padStart(9)}  ${usd(p.drawdown).padStart(9)}`,
+      );
+    }
+  }
+
+  if (open.length > 0) {
+    console.log("");
+    console.log("  Unresolved positions:");
+    for (const r of open) {
+      console.log(`  ${r.slug.padEnd(30)} ${r.outcome.padEnd(4)} ${r.size} sh @ $${r.entryPrice.toFixed(2)}  cost ${usd(r.cost)}`);
+    }
+  }
+  console.log("");
+} catch (err: any) {
+  console.error(`Error: ${err.message || err}`);
+  process.exit(1);
+}
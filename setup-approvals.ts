@@ -0,0 +1,77 @@
+/**
+ * Check and grant the token approvals live trading needs: USDC allowance and
+ * CTF setApprovalForAll for the CTF Exchange, Neg Risk Exchange and Neg Risk
+ * Adapter.
+ *
+ * Usage:
+ *   bun run setup-approvals.ts            # show what's missing, then send the approvals
+ *   bun run setup-approvals.ts --check    # only show; exits 1 if anything is missing
+ *
+ * Approvals are sent from the wallet config.signatureType describes (EOA,
+ * proxy or Safe) with the gas settings in config.json; gas is paid in MATIC
+ * by the private key's address. Set POLYGON_RPC_URL to use another RPC.
+ */
+
+import "dotenv/config";
+import { readFileSync } from "fs";
+import { ethers } from "ethers";
+import { configFromFile } from "./src/config.js";
+import { ApprovalStatus, checkApprovals, sendApprovals } from "./src/approvals.js";
+import { connectSigner, holderAddress } from "./src/wallet-exec.js";
+import { createLogger } from "./src/logger.js";
+
+const args = process.argv.slice(2);
+const checkOnly = args.includes("--check");
+const WALLET_TYPES = ["EOA", "proxy", "Safe"];
+
+const configFile = JSON.parse(readFileSync("./config.json", "utf-8"));
+const config = configFromFile(configFile);
+
+if (!config.privateKey || config.privateKey === "0x..." ||
+    (config.signatureType !== 0 && (!config.funderAddress || config.funderAddress === "0x..."))) {
+  console.error("Error: Missing credentials. Set POLYMARKET_PRIVATE_KEY and POLYMARKET_FUNDER_ADDRESS in .env");
+  process.exit(1);
+}
+
+function printStatus(statuses: ApprovalStatus[]): void {
+  for (const a of statuses) {
+    const detail = a.allowance
+      ? ` (allowance ${a.allowance.eq(ethers.constants.MaxUint256) ? "unlimited" : `$${ethers.utils.formatUnits(a.allowance, 6)}`})`
+      : "";
+    console.log(`  ${a.approved ? "ok     " : "MISSING"}  ${a.token.padEnd(4)} → ${a.spender.padEnd(17)}${detail}`);
+  }
+}
+
+try {
+  const signer = connectSigner(config);
+  const log = createLogger({ level: config.logging.level }, "approvals");
+
+  console.log("");
+  console.log(`  Approvals for ${holderAddress(config, signer)} (${WALLET_TYPES[config.signatureType]} wallet)`);
+  console.log("  ──────────────────────────────────────────");
+  const statuses = await checkApprovals(config, signer);
+  printStatus(statuses);
+  console.log("");
+
+  const missing = statuses.filter((a) => !a.approved);
+  if (missing.length === 0) {
+    console.log("  All approvals in place.");
+    process.exit(0);
+  }
+  if (checkOnly) {
+    console.log(`  ${missing.length} approval(s) missing — run without --check to send them.`);
+    process.exit(1);
+  }
+
+  await sendApprovals(config, signer, missing, log);
+  const after = (await checkApprovals(config, signer)).filter((a) => !a.approved);
+  if (after.length > 0) {
+    console.error(`Error: still missing after sending: ${after.map((a) => `${a.token} → ${a.spender}`).join(", ")}`);
+    process.exit(1);
+  }
+  console.log("  All approvals in place.");
+  process.exit(0);
+} catch (err: any) {
+  console.error(`Error: ${err.reason || err.message || err}`);
+  process.exit(1);
+}
@@ -0,0 +1,107 @@
+/**
+ * Token approvals the exchange contracts need before the wallet can trade.
+ *
+ * Buying spends USDC through the CTF Exchange (or the Neg Risk Exchange for
+ * neg-risk markets), and selling moves CTF outcome tokens through them; the
+ * Neg Risk Adapter converts and redeems neg-risk positions. Each of the three
+ * needs a USDC ERC-20 allowance and CTF setApprovalForAll from the wallet
+ * that holds the funds (see wallet-exec holderAddress). Without them orders
+ * fail at runtime.
+ *
+ * A USDC allowance counts as missing when it is below the wallet's USDC
+ * balance or maxPositionSize, whichever is larger. Missing approvals are
+ * granted in full (MaxUint256 / true), sent the way the wallet's signature
+ * type requires.
+ */
+
+import { ethers } from "ethers";
+import { TraderConfig } from "./config.js";
+import { WalletCall, executeCalls, holderAddress, maxCallsPerTx } from "./wallet-exec.js";
+import { timeCall } from "./metrics.js";
+import type { Logger } from "./logger.js";
+
+export interface ApprovalStatus {
+  token: "USDC" | "CTF";
+  spender: string;            // Contract name
+  spenderAddress: string;
+  approved: boolean;
+  allowance?: ethers.BigNumber; // USDC only, 6 decimals
+}
+
+// Polygon contract addresses
+const USDC_ADDRESS = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
+const CTF_ADDRESS = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
+
+const SPENDERS: [name: string, address: string][] = [
+  ["CTF Exchange", "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E"],
+  ["Neg Risk Exchange", "0xC5d563A36AE78145C45a50134d48A1215220f80a"],
+  ["Neg Risk Adapter", "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296"],
+];
+
+const USDC_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+const CTF_ABI = [
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
+  "function setApprovalForAll(address operator, bool approved)",
+];
+
+/**
+ * USDC allowance and CTF operator approval of every exchange contract.
+ * Throws if the RPC calls fail.
+ */
+export async function checkApprovals(config: TraderConfig, signer: ethers.Wallet): Promise<ApprovalStatus[]> {
+  const holder = holderAddress(config, signer);
+  const usdc = new ethers.Contract(USDC_ADDRESS, USDC_ABI, signer.provider);
+  const ctf = new ethers.Contract(CTF_ADDRESS, CTF_ABI, signer.provider);
+
+  const balance: ethers.BigNumber = await timeCall("rpc", "balanceOf", () => usdc.balanceOf(holder));
+  const maxPosition = ethers.utils.parseUnits(config.maxPositionSize.toFixed(6), 6);
+  const needed = balance.gt(maxPosition) ? balance : maxPosition;
+
+  const statuses: ApprovalStatus[] = [];
+  for (const [spender, spenderAddress] of SPENDERS) {
+    const allowance: ethers.BigNumber = await timeCall("rpc", "allowance", () => usdc.allowance(holder, spenderAddress));
+    statuses.push({ token: "USDC", spender, spenderAddress, approved: allowance.gte(needed), allowance });
+  }
+  for (const [spender, spenderAddress] of SPENDERS) {
+    const approved: boolean = await timeCall("rpc", "isApprovedForAll", () => ctf.isApprovedForAll(holder, spenderAddress));
+    statuses.push({ token: "CTF", spender, spenderAddress, approved });
+  }
+  return statuses;
+}
+
+/**
+ * Send the approvals that are missing, batched where the wallet allows.
+ * Returns the hashes of the mined transactions; throws if one fails or
+ * isn't mined.
+ */
+export async function sendApprovals(
+  config: TraderConfig,
+  signer: ethers.Wallet,
+  missing: ApprovalStatus[],
+  logger: Logger,
+): Promise<string[]> {
+  const usdcIface = new ethers.utils.Interface(USDC_ABI);
+  const ctfIface = new ethers.utils.Interface(CTF_ABI);
+  const calls: WalletCall[] = missing.map((a) => a.token === "USDC"
+    ? { to: USDC_ADDRESS, data: usdcIface.encodeFunctionData("approve", [a.spenderAddress, ethers.constants.MaxUint256]) }
+    : { to: CTF_ADDRESS, data: ctfIface.encodeFunctionData("setApprovalForAll", [a.spenderAddress, true]) });
+
+  const txHashes: string[] = [];
+  const perTx = Math.min(calls.length, maxCallsPerTx(config));
+  for (let i = 0; i < calls.length; i += perTx) {
+    const names = missing.slice(i, i + perTx).map((a) => `${a.token} → ${a.spender}`).join(", ");
+    const result = await executeCalls(config, signer, calls.slice(i, i + perTx), logger, (txHash) => {
+      logger.info(`Tx submitted: ${txHash} (${names})`, { txHash });
+    });
+    if (!result.receipt) throw new Error(`Approval tx ${result.txHash} not mined yet — check it, then re-run`);
+    if (result.receipt.status !== 1) throw new Error(`Approval tx ${result.txHash} reverted (${names})`);
+    logger.info(`Approved ${names} — block ${result.receipt.blockNumber}`, { txHash: result.txHash });
+    txHashes.push(result.txHash);
+  }
+  return txHashes;
+}
@@ -0,0 +1,234 @@
+/**
+ * Backtesting engine: replays a recorded dataset (see dataset) through the
+ * live decision path — evaluateMarket, then executeBuy / executeSell with
+ * their guardrail checks — under a simulated clock.
+ *
+ * Fills are simulated by the executor's dry-run (paper trading) path against
+ * the order book recorded in each snapshot; snapshots without a recorded
+ * book fill in full at the midpoint. Spot prices and volatility come from the dataset, so
+ * fair-value and price-driven strategies run fully offline. Each market's
+ * series is taken from its snapshots, or found from its slug among the
+ * configured series and the presets. Simulated trades
+ * go to a scratch trade log, never the live trades.jsonl, and guardrail
+ * state is neither loaded from nor saved to disk.
+ */
+
+import { writeFileSync } from "fs";
+import { TraderConfig } from "./config.js";
+import { setClock } from "./clock.js";
+import { setPriceFeed, PriceFeed } from "./price-feed.js";
+import { resetFairValueCache } from "./fair-value.js";
+import { MarketSeries, SERIES_PRESETS, seriesForSlug } from "./market-series.js";
+import { resetGuardrailState, setGuardrailStateFile } from "./guardrails.js";
+import { setTradeLogFile, readTradeLog, logResolution } from "./trade-log.js";
+import { evaluateMarket } from "./strategy.js";
+import { executeBuy, executeSell } from "./executor.js";
+import { setBookSource, PaperBook } from "./paper-trader.js";
+import { DatasetRecord, MarketSnapshot, snapshotToMarket } from "./dataset.js";
+import { buildTradeResults, summarizeResults, PerformanceSummary, TradeResult } from "./performance.js";
+import { Logger, silentLogger } from "./logger.js";
+
+export interface BacktestOptions {
+  config: TraderConfig;
+  records: DatasetRecord[];
+  tradeLogFile: string;       // Scratch log for simulated trades (truncated first)
+  logger?: Logger;
+}
+
+export interface BacktestResult {
+  markets: number;
+  ticks: number;
+  unresolvedMarkets: number;  // Markets in the dataset with no resolution record
+  results: TradeResult[];
+  summary: PerformanceSummary;
+}
+
+const VOL_LOOKBACK_MARKETS = 20;
+const DEFAULT_VOL = 0.005;
+
+/**
+ * Run one backtest. Restores the real clock, price feed, trade log path and
+ * guardrail persistence when done, and starts and ends with empty fair-value
+ * caches.
+ */
+export async function runBacktest(opts: BacktestOptions): Promise<BacktestResult> {
+  const logger = (opts.logger ?? silentLogger).child("backtest");
+  const config: TraderConfig = { ...opts.config, dryRun: true };
+
+  const markets = groupByMarket(opts.records);
+  const seriesBySlug = new Map(markets.map((snaps) => [snaps[0].slug, seriesOf(snaps[0], config.series)]));
+  const resolutions = new Map<string, "Up" | "Down">();
+  for (const r of opts.records) {
+    if (r.type === "resolution") resolutions.set(r.slug, r.resolved);
+  }
+
+  let clockMs = 0;
+  let currentSnap: MarketSnapshot | null = null;
+  writeFileSync(opts.tradeLogFile, "");
+  const prevLogFile = setTradeLogFile(opts.tradeLogFile);
+  const prevStateFile = setGuardrailStateFile(null);
+  resetGuardrailState();
+  setClock(() => clockMs);
+  resetFairValueCache();
+  setPriceFeed(createReplayFeed(markets, seriesBySlug, () => clockMs));
+  setBookSource(async (tokenId) => (currentSnap ? recordedBook(currentSnap, tokenId) : null));
+
+  let ticks = 0;
+  let unresolvedMarkets = 0;
+  let results: TradeResult[];
+
+  try {
+    for (const snaps of markets) {
+      const slug = snaps[0].slug;
+      const series = seriesBySlug.get(slug)!;
+
+      for (const snap of snaps) {
+        clockMs = snap.time;
+        currentSnap = snap;
+        ticks++;
+
+        const market = snapshotToMarket(snap, series, clockMs);
+        const signal = await evaluateMarket(market, config);
+
+        if (signal.signal === "BUY") {
+          const exec = await executeBuy(signal, market, config, logger.child("executor"));
+          if (!exec.success) logger.info(`BUY skipped: ${exec.message}`, { slug });
+        } else if (signal.signal === "SELL") {
+          const exec = await executeSell(signal, market, config, logger.child("executor"));
+          if (!exec.success) logger.info(`SELL skipped: ${exec.message}`, { slug });
+        }
+      }
+
+      clockMs = Math.max(clockMs, snaps[0].endTime * 1000);
+      const resolved = resolutions.get(slug);
+      if (resolved) {
+        logResolution(slug, resolved);
+      } else {
+        unresolvedMarkets++;
+        logger.warn("No resolution record", { slug });
+      }
+    }
+
+    results = buildTradeResults(readTradeLog());
+  } finally {
+    setClock(null);
+    setPriceFeed(null);
+    resetFairValueCache();
+    setBookSource(null);
+    setTradeLogFile(prevLogFile);
+    setGuardrailStateFile(prevStateFile);
+    resetGuardrailState();
+  }
+
+  return {
+    markets: markets.length,
+    ticks,
+    unresolvedMarkets,
+    results,
+    summary: summarizeResults(results),
+  };
+}
+
+/**
+ * The book recorded for a token, or unlimited depth at its midpoint when the
+ * snapshot has no book.
+ */
+function recordedBook(snap: MarketSnapshot, tokenId: string): PaperBook | null {
+  const o = snap.outcomes.find((x) => x.tokenId === tokenId);
+  if (!o) return null;
+  if (o.bids?.length || o.asks?.length) return { bids: o.bids ?? [], asks: o.asks ?? [] };
+  return { bids: [[o.price, Infinity]], asks: [[o.price, Infinity]] };
+}
+
+/**
+ * The series a recorded market belongs to.
+ */
+function seriesOf(snap: MarketSnapshot, configured: MarketSeries[]): MarketSeries {
+  const series = snap.series
+    ? [...configured, ...SERIES_PRESETS].find((s) => s.id === snap.series)
+    : seriesForSlug(snap.slug, configured);
+  if (!series) throw new Error(`No market series for ${snap.slug} — add it to "series" in config.json`);
+  return series;
+}
+
+/**
+ * Snapshots grouped per market, markets ordered by start time.
+ */
+function groupByMarket(records: DatasetRecord[]): MarketSnapshot[][] {
+  const bySlug = new Map<string, MarketSnapshot[]>();
+  for (const r of records) {
+    if (r.type !== "snapshot") continue;
+    const list = bySlug.get(r.slug) ?? [];
+    list.push(r);
+    bySlug.set(r.slug, list);
+  }
+  return Array.from(bySlug.values())
+    .map((list) => list.sort((a, b) => a.time - b.time))
+    .sort((a, b) => a[0].startTime - b[0].startTime);
+}
+
+/**
+ * Price feed backed by the dataset's recorded spot prices, per series, as
+ * seen at the simulated clock. Volatility is the mean absolute open→close
+ * move of the series' recent markets, mirroring estimateShortTermVol.
+ */
+function createReplayFeed(
+  markets: MarketSnapshot[][],
+  seriesBySlug: Map<string, MarketSeries>,
+  clock: () => number,
+): PriceFeed {
+  const prices = new Map<string, { time: number; price: number }[]>();   // Series id -> prices
+  const marketMoves = new Map<string, { endMs: number; move: number }[]>(); // Series id -> moves, by end time
+
+  for (const snaps of markets) {
+    const id = seriesBySlug.get(snaps[0].slug)!.id;
+    const withSpot = snaps.filter((s) => s.spot !== null && s.spot > 0);
+    const list = prices.get(id) ?? [];
+    list.push(...withSpot.map((s) => ({ time: s.time, price: s.spot as number })));
+    prices.set(id, list);
+
+    if (withSpot.length < 2) continue;
+    const open = withSpot[0].spot as number;
+    const close = withSpot[withSpot.length - 1].spot as number;
+    const moves = marketMoves.get(id) ?? [];
+    moves.push({ endMs: snaps[0].endTime * 1000, move: Math.abs((close - open) / open) });
+    marketMoves.set(id, moves);
+  }
+  for (const list of prices.values()) list.sort((a, b) => a.time - b.time);
+  for (const list of marketMoves.values()) list.sort((a, b) => a.endMs - b.endMs);
+
+  const pricesOf = (series: MarketSeries) => {
+    const list = prices.get(series.id) ?? [];
+    if (list.length === 0) throw new Error(`Dataset has no ${series.asset} prices`);
+    return list;
+  };
+
+  // Latest price at or before t (first price if t precedes the data)
+  const priceAt = (series: MarketSeries, t: number): number => {
+    const list = pricesOf(series);
+    let lo = 0;
+    let hi = list.length - 1;
+    if (t < list[0].time) return list[0].price;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (list[mid].time <= t) lo = mid;
+      else hi = mid - 1;
+    }
+    return list[lo].price;
+  };
+
+  return {
+    getPrice: async (series) => priceAt(series, clock()),
+    // The market open: first recorded price at or after the timestamp
+    getPriceAt: async (series, timestampSec) => {
+      const t = timestampSec * 1000;
+      const next = pricesOf(series).find((p) => p.time >= t);
+      return next ? next.price : priceAt(series, t);
+    },
+    estimateVol: async (series) => {
+      const done = (marketMoves.get(series.id) ?? []).filter((m) => m.endMs <= clock()).slice(-VOL_LOOKBACK_MARKETS);
+      if (done.length < 5) return DEFAULT_VOL;
+      return done.reduce((sum, m) => sum + m.move, 0) / done.length;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Flag value parsing shared by the command-line tools (report, history).
+ * Each parser throws on a bad value, so a typo fails loudly instead of
+ * quietly producing an empty or nonsensical report.
+ */
+
+/**
+ * Parse a --from/--to value into Unix ms. A bare date (YYYY-MM-DD) means the
+ * start of that UTC day, or with endOfDay the start of the next one.
+ */
+export function parseDate(raw: string, endOfDay: boolean): number {
+  const ms = Date.parse(raw);
+  if (Number.isNaN(ms)) throw new Error(`Invalid date: ${raw}`);
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(raw);
+  return dateOnly && endOfDay ? ms + 24 * 60 * 60 * 1000 : ms;
+}
+
+/**
+ * Parse a flag value that must be a number greater than zero.
+ */
+export function parsePositive(name: string, raw: string): number {
+  const value = Number(raw);
+  if (raw.trim() === "" || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a number greater than 0, got "${raw}"`);
+  }
+  return value;
+}
@@ -29,6 +29,15 @@ export async function initClient(config: TraderConfig): Promise<ClobClient> {
   return clientInstance;
 }
 
+/**
+ * Initialize an unauthenticated client for public market data (midpoints,
+ * order books). Enough for the standalone recorder; cannot place orders.
+ */
+export function initReadOnlyClient(): ClobClient {
+  clientInstance = new ClobClient(CLOB_HOST, POLYGON_CHAIN_ID);
+  return clientInstance;
+}
+
 export function getClient(): ClobClient {
   if (!clientInstance) {
     throw new Error("Polymarket client not initialized. Call initClient() first.");
@@ -0,0 +1,20 @@
+/**
+ * Clock used by the trading logic (strategies, guardrails, executor, trade log).
+ * Real time by default; the backtester swaps in a simulated clock.
+ */
+
+let source: () => number = () => Date.now();
+
+/**
+ * Current time in Unix ms.
+ */
+export function now(): number {
+  return source();
+}
+
+/**
+ * Replace the clock, or restore real time with null.
+ */
+export function setClock(fn: (() => number) | null): void {
+  source = fn ?? (() => Date.now());
+}
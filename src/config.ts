@@ -2,6 +2,103 @@
  * Configuration types and resolver.
  */
 
+import type { LogLevel } from "./logger.js";
+import { MarketSeries, resolveSeries } from "./market-series.js";
+
+export interface RecorderConfig {
+  enabled: boolean;           // Record snapshots from the trading loop
+  dir: string;
+  maxFileMB: number;          // Roll over to a new file at this size
+  depthLevels: number;        // Order book levels kept per side
+}
+
+export interface PaperConfig {
+  startingBalance: number;    // Virtual USDC the paper ledger starts with
+  maxSlippage: number;        // How far past the signal price a paper order may fill
+  ledgerFile: string;         // Paper trade log (same format as trades.jsonl)
+  stateFile: string;          // Paper guardrail state
+}
+
+export type TimeInForce = "GTC" | "FOK" | "FAK";
+
+export interface ExecutionConfig {
+  orderType: TimeInForce;     // GTC rests at the signal price; FOK/FAK take liquidity from the book
+  maxSpread: number | null;   // Skip entries when the outcome's bid/ask spread is wider (0.05 = 5c); null = off
+  maxSlippage: number;        // FOK/FAK: how far past the best price to take liquidity (0.02 = 2c)
+}
+
+export interface SizingConfig {
+  mode: "fixed" | "fraction" | "kelly";
+  fixedUsdc: number | null;   // fixed: stake per entry; null = maxOrderSize
+  fraction: number;           // fraction: share of current balance per entry (0.02 = 2%)
+  kellyFraction: number;      // kelly: multiple of the full Kelly stake (0.25 = quarter Kelly)
+  minOrderUsdc: number;       // Skip entries whose stake comes out below this
+}
+
+export interface StreamConfig {
+  enabled: boolean;           // Stream books and spot prices instead of polling them
+  marketUrl: string;          // Polymarket CLOB market channel
+  spotUrl: string;            // Binance combined-stream endpoint (?streams= is appended)
+  debounceMs: number;         // At most one evaluation per series per this many ms of book updates
+  heartbeatSec: number;       // Full tick interval while streaming; tickInterval applies when the stream is down
+  staleSec: number;           // A connection that sends nothing for this long is treated as dropped
+}
+
+export interface RedeemerConfig {
+  lookbackHours: number;      // Also scan every series' markets this far back, for positions not in trades.jsonl
+  batchSize: number;          // Max redeemPositions calls per proxy transaction
+  stateFile: string;          // Per-condition redemption state
+}
+
+export interface GasConfig {
+  maxFeeGwei: number;         // Cap on the EIP-1559 max fee per gas
+  maxPriorityFeeGwei: number; // Cap on the priority fee (tip)
+  minPriorityFeeGwei: number; // Floor on the tip (Polygon rejects tips below ~25 gwei)
+  gasLimitMultiplier: number; // Headroom over the node's gas estimate (1.25 = +25%)
+  fallbackGasLimit: number;   // Gas limit when the node can't estimate (but not when the call would revert)
+  replaceAfterBlocks: number; // Re-send a tx with bumped fees if unmined after this many blocks
+  feeBumpPct: number;         // Fee increase per replacement (0.2 = +20%; nodes require >= 10%)
+  maxReplacements: number;    // Replacements before leaving the tx to the next sweep
+  pollIntervalMs: number;     // How often to check for a receipt while waiting
+}
+
+export interface ControlConfig {
+  enabled: boolean;           // Start the local HTTP control API
+  port: number;               // Bound to 127.0.0.1 only
+  token: string;              // Bearer token (from CONTROL_API_TOKEN); required
+}
+
+export interface MetricsConfig {
+  enabled: boolean;           // Serve Prometheus metrics at /metrics
+  host: string;               // Bind address; 127.0.0.1 unless scraped from another host
+  port: number;
+}
+
+export interface SinkConfig {
+  type: "webhook" | "telegram" | "discord" | "slack";
+  url?: string;               // webhook / discord / slack
+  botToken?: string;          // telegram (falls back to TELEGRAM_BOT_TOKEN)
+  chatId?: string;            // telegram
+  apiBase?: string;           // telegram API base, for pointing at a stand-in
+  events?: string[];          // Event types routed to this sink; omitted = all
+}
+
+export interface NotifierConfig {
+  enabled: boolean;
+  sinks: SinkConfig[];
+  rateLimitPerMinute: number;         // Per sink; excess messages are dropped
+  dedupWindowSec: number;             // Identical events within this window are sent once
+  dailySummaryHourUtc: number | null; // Hour to send the previous day's summary; null = off
+  errorThreshold: number;             // Consecutive tick errors before alerting
+}
+
+export interface LoggingConfig {
+  level: LogLevel;            // Lowest level written (debug/info/warn/error)
+  file: boolean;              // Also write JSON lines to dir
+  dir: string;
+  maxFileMB: number;          // Roll over to a new file at this size
+}
+
 export interface TraderConfig {
   privateKey: string;
   funderAddress: string;
@@ -9,10 +106,36 @@ export interface TraderConfig {
   enabled: boolean;
   dryRun: boolean;
   maxOrderSize: number;
+  maxPositionSize: number;    // Max total USDC across unresolved positions
+  maxDailyLoss: number;       // Realized USDC loss (UTC day) that trips the killswitch
+  maxTradesPerHour: number;
   minEntryPrice: number;
+  minEdge: number | null;     // Required fair value minus price to enter (0.05 = 5c); null = off
   entryWindowMinStart: number;
   entryWindowMinEnd: number;
+  takeProfitPct: number;      // Sell once unrealized gain reaches this (0.80 = 80%)
+  profitLockMinutes: number;  // Late-window lock: applies when fewer minutes remain...
+  profitLockPct: number;      // ...and unrealized gain exceeds this
+  stopLossPct: number | null;           // Sell once unrealized loss reaches this (0.40 = -40%); null = off
+  stopLossPrice: number | null;         // Sell if the held outcome's midpoint drops to this; null = off
+  stopLossWithinMinutes: number | null; // Only apply stop-loss with this many minutes or fewer left; null = always
+  orderFillTimeoutSec: number; // Cancel a live order's unfilled remainder after this long
+  cancelBeforeEndSec: number;  // ...or once the market has this few seconds left
   tickIntervalSec: number;
+  series: MarketSeries[];     // Market series traded, each ticked in turn
+  strategy: string;                                     // Name from the strategy registry
+  strategyParams: Record<string, Record<string, unknown>>; // Per-strategy config blocks, keyed by name
+  execution: ExecutionConfig;
+  sizing: SizingConfig;
+  stream: StreamConfig;
+  recorder: RecorderConfig;
+  paper: PaperConfig;
+  redeemer: RedeemerConfig;
+  gas: GasConfig;
+  control: ControlConfig;
+  metrics: MetricsConfig;
+  notifications: NotifierConfig;
+  logging: LoggingConfig;
 }
 
 export function resolveConfig(raw: Record<string, unknown>): TraderConfig {
@@ -23,14 +146,166 @@ export function resolveConfig(raw: Record<string, unknown>): TraderConfig {
     enabled: (raw.enabled as boolean) ?? false,
     dryRun: (raw.dryRun as boolean) ?? true,
     maxOrderSize: (raw.maxOrderSize as number) ?? 10,
+    maxPositionSize: (raw.maxPositionSize as number) ?? 50,
+    maxDailyLoss: (raw.maxDailyLoss as number) ?? 25,
+    maxTradesPerHour: (raw.maxTradesPerHour as number) ?? 10,
     minEntryPrice: (raw.minEntryPrice as number) ?? 0.60,
+    minEdge: (raw.minEdge as number) ?? null,
     entryWindowMinStart: (raw.entryWindowMinStart as number) ?? 5,
     entryWindowMinEnd: (raw.entryWindowMinEnd as number) ?? 10,
+    takeProfitPct: (raw.takeProfitPct as number) ?? 0.80,
+    profitLockMinutes: (raw.profitLockMinutes as number) ?? 1,
+    profitLockPct: (raw.profitLockPct as number) ?? 0.10,
+    stopLossPct: (raw.stopLossPct as number) ?? null,
+    stopLossPrice: (raw.stopLossPrice as number) ?? null,
+    stopLossWithinMinutes: (raw.stopLossWithinMinutes as number) ?? null,
+    orderFillTimeoutSec: (raw.orderFillTimeoutSec as number) ?? 60,
+    cancelBeforeEndSec: (raw.cancelBeforeEndSec as number) ?? 30,
     tickIntervalSec: (raw.tickIntervalSec as number) ?? 30,
+    series: resolveSeries(raw.series),
+    strategy: (raw.strategy as string) ?? "ride-the-wave",
+    strategyParams: (raw.strategyParams as Record<string, Record<string, unknown>>) ?? {},
+    execution: {
+      orderType: "GTC",
+      maxSpread: null,
+      maxSlippage: 0.02,
+      ...(raw.execution as Partial<ExecutionConfig>),
+    },
+    sizing: {
+      mode: "fixed",
+      fixedUsdc: null,
+      fraction: 0.02,
+      kellyFraction: 0.25,
+      minOrderUsdc: 1,
+      ...(raw.sizing as Partial<SizingConfig>),
+    },
+    stream: {
+      enabled: false,
+      marketUrl: "wss://ws-subscriptions-clob.polymarket.com/ws/market",
+      spotUrl: "wss://stream.binance.com:9443/stream",
+      debounceMs: 1000,
+      heartbeatSec: 60,
+      staleSec: 60,
+      ...(raw.stream as Partial<StreamConfig>),
+    },
+    recorder: {
+      enabled: false,
+      dir: "./logs/market-data",
+      maxFileMB: 50,
+      depthLevels: 5,
+      ...(raw.recorder as Partial<RecorderConfig>),
+    },
+    paper: {
+      startingBalance: 1000,
+      maxSlippage: 0.02,
+      ledgerFile: "./paper-trades.jsonl",
+      stateFile: "./paper-guardrails-state.json",
+      ...(raw.paper as Partial<PaperConfig>),
+    },
+    redeemer: {
+      lookbackHours: 5,
+      batchSize: 10,
+      stateFile: "./redemption-state.json",
+      ...(raw.redeemer as Partial<RedeemerConfig>),
+    },
+    gas: {
+      maxFeeGwei: 500,
+      maxPriorityFeeGwei: 100,
+      minPriorityFeeGwei: 30,
+      gasLimitMultiplier: 1.25,
+      fallbackGasLimit: 1_000_000,
+      replaceAfterBlocks: 15,
+      feeBumpPct: 0.2,
+      maxReplacements: 3,
+      pollIntervalMs: 4000,
+      ...(raw.gas as Partial<GasConfig>),
+    },
+    control: {
+      enabled: false,
+      port: 8787,
+      token: "",
+      ...(raw.control as Partial<ControlConfig>),
+    },
+    metrics: {
+      enabled: false,
+      host: "127.0.0.1",
+      port: 9464,
+      ...(raw.metrics as Partial<MetricsConfig>),
+    },
+    notifications: {
+      enabled: false,
+      sinks: [],
+      rateLimitPerMinute: 10,
+      dedupWindowSec: 300,
+      dailySummaryHourUtc: 0,
+      errorThreshold: 3,
+      ...(raw.notifications as Partial<NotifierConfig>),
+    },
+    logging: {
+      level: "info",
+      file: true,
+      dir: "./logs",
+      maxFileMB: 20,
+      ...(raw.logging as Partial<LoggingConfig>),
+    },
   };
 }
 
-export const MARKET_DURATION_SEC = 900; // 15 minutes
+/**
+ * Build the config from a parsed config.json plus credentials from the
+ * environment. config.json uses friendlier names for a few fields
+ * (live, entryWindowStart/End, tickInterval, strategies). The control API
+ * token only comes from the environment.
+ */
+export function configFromFile(
+  configFile: Record<string, any>,
+  env: Record<string, string | undefined> = process.env,
+): TraderConfig {
+  return resolveConfig({
+    privateKey: env.POLYMARKET_PRIVATE_KEY || "",
+    funderAddress: env.POLYMARKET_FUNDER_ADDRESS || "",
+    signatureType: configFile.signatureType ?? 1,
+    enabled: configFile.enabled ?? true,
+    dryRun: !(configFile.live ?? false),
+    maxOrderSize: configFile.maxOrderSize ?? 10,
+    maxPositionSize: configFile.maxPositionSize ?? 50,
+    maxDailyLoss: configFile.maxDailyLoss ?? 25,
+    maxTradesPerHour: configFile.maxTradesPerHour ?? 10,
+    minEntryPrice: configFile.minEntryPrice ?? 0.60,
+    minEdge: configFile.minEdge ?? null,
+    entryWindowMinStart: configFile.entryWindowStart ?? 5,
+    entryWindowMinEnd: configFile.entryWindowEnd ?? 10,
+    takeProfitPct: configFile.takeProfitPct ?? 0.80,
+    profitLockMinutes: configFile.profitLockMinutes ?? 1,
+    profitLockPct: configFile.profitLockPct ?? 0.10,
+    stopLossPct: configFile.stopLossPct ?? null,
+    stopLossPrice: configFile.stopLossPrice ?? null,
+    stopLossWithinMinutes: configFile.stopLossWithinMinutes ?? null,
+    orderFillTimeoutSec: configFile.orderFillTimeout ?? 60,
+    cancelBeforeEndSec: configFile.cancelBeforeEnd ?? 30,
+    tickIntervalSec: configFile.tickInterval ?? 30,
+    series: configFile.series,
+    strategy: configFile.strategy ?? "ride-the-wave",
+    strategyParams: configFile.strategies ?? {},
+    execution: configFile.execution ?? {},
+    sizing: configFile.sizing ?? {},
+    stream: configFile.stream ?? {},
+    recorder: configFile.recorder ?? {},
+    paper: configFile.paper ?? {},
+    redeemer: configFile.redeemer ?? {},
+    gas: configFile.gas ?? {},
+    control: { ...configFile.control, token: env.CONTROL_API_TOKEN || "" },
+    metrics: configFile.metrics ?? {},
+    notifications: {
+      ...configFile.notifications,
+      sinks: (configFile.notifications?.sinks ?? []).map((s: SinkConfig) =>
+        s.type === "telegram" ? { ...s, botToken: s.botToken || env.TELEGRAM_BOT_TOKEN } : s,
+      ),
+    },
+    logging: configFile.logging ?? {},
+  });
+}
+
 export const CLOB_HOST = "https://clob.polymarket.com";
 export const GAMMA_HOST = "https://gamma-api.polymarket.com";
 export const POLYGON_CHAIN_ID = 137;
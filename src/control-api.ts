@@ -0,0 +1,222 @@
+/**
+ * Local HTTP control API for the running bot.
+ *
+ * Listens on 127.0.0.1 only, and every request must carry
+ * `Authorization: Bearer <CONTROL_API_TOKEN>`. Endpoints:
+ *
+ *   GET  /status            loop state, last tick per series, positions, killswitch, balance
+ *   POST /pause             stop new entries (exits still run)
+ *   POST /resume
+ *   POST /dry-run           {"dryRun": true|false} — switch paper/live trading (live needs token approvals)
+ *   POST /killswitch        {"reason": "..."} — trip the killswitch
+ *   POST /killswitch/clear
+ *   POST /redeem            start a redemption sweep now
+ *
+ * Responses are JSON. Errors are { "error": "..." } with a 4xx/5xx status.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { timingSafeEqual } from "crypto";
+import { TraderConfig } from "./config.js";
+import { getServiceStatus, pauseService, resumeService, setDryRun } from "./trader-service.js";
+import { activateKillswitch, clearKillswitch, getGuardrailState } from "./guardrails.js";
+import { getTrackedOrders } from "./order-tracker.js";
+import { getPaperBalance } from "./paper-trader.js";
+import { runRedemptionSweep, isSweepRunning } from "./redeemer.js";
+import { fetchBalance } from "./balance.js";
+import { isClientReady } from "./client.js";
+import { checkApprovals } from "./approvals.js";
+import { connectSigner } from "./wallet-exec.js";
+import type { Logger } from "./logger.js";
+
+const HOST = "127.0.0.1";
+const MAX_BODY_BYTES = 16 * 1024;
+
+let server: Server | null = null;
+
+/**
+ * Start the control API. Refuses to start without a token.
+ */
+export function startControlApi(config: TraderConfig, logger: Logger): void {
+  if (server) return;
+  if (!config.control.token) {
+    logger.warn("Not started — set CONTROL_API_TOKEN in .env to enable the control API");
+    return;
+  }
+
+  server = createServer((req, res) => {
+    handle(req, res, config, logger).catch((err: any) => {
+      send(res, err.statusCode ?? 500, { error: err.message || String(err) });
+    });
+  });
+  server.on("error", (err: any) => {
+    logger.error(`Server error: ${err.message || err}`);
+  });
+  server.listen(config.control.port, HOST, () => {
+    logger.info(`Control API listening on http://${HOST}:${config.control.port}`);
+  });
+}
+
+/**
+ * Stop the control API.
+ */
+export function stopControlApi(): void {
+  if (server) {
+    server.close();
+    server = null;
+  }
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse, config: TraderConfig, logger: Logger): Promise<void> {
+  if (!authorized(req, config.control.token)) {
+    send(res, 401, { error: "Unauthorized" });
+    return;
+  }
+
+  const path = new URL(req.url || "/", `http://${HOST}`).pathname;
+  const route = `${req.method} ${path}`;
+
+  switch (route) {
+    case "GET /status":
+      send(res, 200, await buildStatus(config));
+      return;
+
+    case "POST /pause":
+      pauseService(logger.child("service"));
+      send(res, 200, { paused: true });
+      return;
+
+    case "POST /resume":
+      resumeService(logger.child("service"));
+      send(res, 200, { paused: false });
+      return;
+
+    case "POST /dry-run": {
+      const body = await readJson(req);
+      if (typeof body.dryRun !== "boolean") {
+        send(res, 400, { error: 'Body must be {"dryRun": true|false}' });
+        return;
+      }
+      if (!body.dryRun && config.dryRun) {
+        // Same preflight as going live at startup
+        let missing: string[];
+        try {
+          missing = (await checkApprovals(config, connectSigner(config))).filter((a) => !a.approved).map((a) => `${a.token} → ${a.spender}`);
+        } catch (err: any) {
+          send(res, 409, { error: `Couldn't check token approvals: ${err.message || err}` });
+          return;
+        }
+        if (missing.length > 0) {
+          send(res, 409, { error: `Missing token approvals: ${missing.join(", ")} — run setup-approvals` });
+          return;
+        }
+      }
+      const error = setDryRun(config, body.dryRun, logger.child("service"));
+      if (error) {
+        send(res, 409, { error });
+        return;
+      }
+      send(res, 200, { dryRun: config.dryRun });
+      return;
+    }
+
+    case "POST /killswitch": {
+      const body = await readJson(req);
+      const reason = typeof body.reason === "string" && body.reason ? body.reason : "Tripped via control API";
+      activateKillswitch(reason);
+      logger.warn(`KILLSWITCH activated: ${reason}`);
+      send(res, 200, killswitchStatus());
+      return;
+    }
+
+    case "POST /killswitch/clear":
+      clearKillswitch();
+      logger.info("Killswitch cleared via control API");
+      send(res, 200, killswitchStatus());
+      return;
+
+    case "POST /redeem":
+      if (isSweepRunning()) {
+        send(res, 409, { error: "Redemption sweep already in progress" });
+        return;
+      }
+      logger.info("Redemption sweep requested");
+      runRedemptionSweep(config, logger.child("redeemer")).catch((err: any) => {
+        logger.error(`Redemption sweep failed: ${err.message || err}`);
+      });
+      send(res, 202, { started: true });
+      return;
+
+    default:
+      send(res, 404, { error: `No route for ${route}` });
+  }
+}
+
+async function buildStatus(config: TraderConfig): Promise<Record<string, unknown>> {
+  const guardrails = getGuardrailState();
+
+  let balance: number | null = null;
+  if (config.dryRun) {
+    balance = getPaperBalance(config.paper);
+  } else if (isClientReady()) {
+    try {
+      balance = parseFloat((await fetchBalance()).collateral) / 1e6;
+    } catch {}
+  }
+
+  return {
+    ...getServiceStatus(),
+    dryRun: config.dryRun,
+    enabled: config.enabled,
+    strategy: config.strategy,
+    balance,
+    killswitch: killswitchStatus(),
+    positions: guardrails.positionsList,
+    workingOrders: getTrackedOrders().map(({ position, ...order }) => order),
+  };
+}
+
+function killswitchStatus(): { active: boolean; reason?: string; since?: string } {
+  const state = getGuardrailState();
+  return {
+    active: state.killswitch,
+    reason: state.killswitchReason,
+    since: state.killswitchAt ? new Date(state.killswitchAt).toISOString() : undefined,
+  };
+}
+
+function authorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || "";
+  const given = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function readJson(req: IncomingMessage): Promise<Record<string, any>> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error("Request body too large"), { statusCode: 413 }));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      if (!raw.trim()) return resolve({});
+      try {
+        const body = JSON.parse(raw);
+        resolve(body && typeof body === "object" ? body : {});
+      } catch {
+        reject(Object.assign(new Error("Invalid JSON body"), { statusCode: 400 }));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body, null, 2));
+}
@@ -0,0 +1,90 @@
+/**
+ * Recorded market dataset: NDJSON files of per-tick market snapshots and
+ * final resolutions, used to replay markets offline (see backtest).
+ *
+ * One JSON record per line:
+ *   {"type":"snapshot","time":<unix ms>,"slug":...,"conditionId":...,
+ *    "startTime":<unix s>,"endTime":<unix s>,"outcomes":[{"tokenId","outcome","price",...book}],
+ *    "series":<series id>,"spot":<usd|null>}
+ *   {"type":"resolution","time":<unix ms>,"slug":...,"resolved":"Up"|"Down"}
+ *
+ * Datasets written by the recorder also carry order book fields on each
+ * outcome (bestBid, bestAsk, bids, asks — see MarketOutcome); hand-made
+ * fixtures may omit them. Older
+ * datasets have "btc" instead of "spot" and no "series"; loadDataset() reads
+ * "btc" as spot, and the series is then found from the slug.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from "fs";
+import { join } from "path";
+import type { ActiveMarket, MarketOutcome } from "./market-discovery.js";
+import type { MarketSeries } from "./market-series.js";
+
+export interface MarketSnapshot {
+  type: "snapshot";
+  time: number;               // Unix ms
+  slug: string;
+  conditionId: string;
+  startTime: number;          // Unix seconds
+  endTime: number;            // Unix seconds
+  outcomes: MarketOutcome[];
+  series?: string;            // Market series id
+  spot: number | null;        // Underlying spot price (USD)
+  tickSize?: string;
+  negRisk?: boolean;
+}
+
+export interface ResolutionRecord {
+  type: "resolution";
+  time: number;               // Unix ms
+  slug: string;
+  resolved: "Up" | "Down";
+}
+
+export type DatasetRecord = MarketSnapshot | ResolutionRecord;
+
+/**
+ * Load records from a file, or from every .jsonl/.ndjson file in a directory
+ * (sorted by name). Malformed lines are skipped. Result is sorted by time.
+ */
+export function loadDataset(path: string): DatasetRecord[] {
+  if (!existsSync(path)) throw new Error(`Dataset not found: ${path}`);
+
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path).filter((f) => /\.(jsonl|ndjson)$/.test(f)).sort().map((f) => join(path, f))
+    : [path];
+
+  const records: DatasetRecord[] = [];
+  for (const file of files) {
+    for (const line of readFileSync(file, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const rec = JSON.parse(line);
+        if (rec.type === "snapshot") records.push({ ...rec, spot: rec.spot ?? rec.btc ?? null });
+        else if (rec.type === "resolution") records.push(rec);
+      } catch {}
+    }
+  }
+  return records.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Rebuild the ActiveMarket a snapshot of `series` describes, as seen at `nowMs`.
+ */
+export function snapshotToMarket(snap: MarketSnapshot, series: MarketSeries, nowMs: number): ActiveMarket {
+  const secondsRemaining = Math.max(0, snap.endTime - Math.floor(nowMs / 1000));
+  return {
+    series,
+    conditionId: snap.conditionId,
+    slug: snap.slug,
+    question: "",
+    startTime: snap.startTime,
+    endTime: snap.endTime,
+    secondsRemaining,
+    minutesRemaining: secondsRemaining / 60,
+    outcomes: snap.outcomes,
+    tickSize: snap.tickSize ?? "0.01",
+    negRisk: snap.negRisk ?? false,
+    closed: false,
+  };
+}
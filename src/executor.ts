@@ -1,17 +1,26 @@
 /**
  * Order execution engine.
- * Places orders via the Polymarket CLOB client.
- * All orders go through guardrail checks before submission.
+ * Places orders via the Polymarket CLOB client, as resting GTC limits or
+ * marketable FOK/FAK orders per the signal's orderType (see
+ * strategies/common for how they are priced).
+ * All buys go through guardrail checks before submission; sells (exits) skip
+ * them, since closing a position only reduces risk.
  */
 
 import { Side, OrderType } from "@polymarket/clob-client";
-import type { TickSize } from "@polymarket/clob-client";
+import type { TickSize, UserOrder } from "@polymarket/clob-client";
 import { getClient, isClientReady } from "./client.js";
-import { TraderConfig } from "./config.js";
-import { checkPreTrade, recordTrade } from "./guardrails.js";
+import { TimeInForce, TraderConfig } from "./config.js";
+import { checkPreTrade, recordTrade, closePosition, updatePosition, getGuardrailState } from "./guardrails.js";
 import { TradeSignal } from "./strategy.js";
 import { ActiveMarket } from "./market-discovery.js";
-import { hasBoughtSlug, logBuy } from "./trade-log.js";
+import { hasBoughtSlug, logBuy, logSell } from "./trade-log.js";
+import { trackOrder, hasOpenOrder } from "./order-tracker.js";
+import { simulateFill } from "./paper-trader.js";
+import { now } from "./clock.js";
+import { incCounter, timeCall } from "./metrics.js";
+import { notify } from "./notifier.js";
+import type { Logger } from "./logger.js";
 
 const VALID_TICK_SIZES = new Set(["0.1", "0.01", "0.001", "0.0001"]);
 
@@ -27,6 +36,28 @@ export interface ExecutionResult {
   dryRun: boolean;
 }
 
+/**
+ * Sign and post a limit order: GTC rests on the book, FOK/FAK take whatever
+ * crosses the limit price immediately and cancel the rest (FOK: all or nothing).
+ */
+async function postOrder(order: UserOrder, market: ActiveMarket, orderType: TimeInForce): Promise<any> {
+  const client = getClient();
+  const options = { tickSize: toTickSize(market.tickSize), negRisk: market.negRisk };
+  if (orderType === "GTC") {
+    return timeCall("clob", "createAndPostOrder", () => client.createAndPostOrder(order, options, OrderType.GTC));
+  }
+  const signed = await client.createOrder(order, options);
+  return timeCall("clob", "postOrder", () => client.postOrder(signed, orderType === "FOK" ? OrderType.FOK : OrderType.FAK));
+}
+
+/**
+ * Count an order's result (once it has been submitted) and pass it through.
+ */
+function countResult(side: "BUY" | "SELL", config: TraderConfig, result: ExecutionResult): ExecutionResult {
+  incCounter("orders_total", { side, mode: config.dryRun ? "paper" : "live", result: result.success ? "success" : "failure" });
+  return result;
+}
+
 /**
  * Execute a BUY signal: place a limit order for the target outcome.
  */
@@ -34,7 +65,7 @@ export async function executeBuy(
   signal: TradeSignal,
   market: ActiveMarket,
   config: TraderConfig,
-  logger: (...args: any[]) => void,
+  logger: Logger,
 ): Promise<ExecutionResult> {
   if (!signal.outcome || !signal.suggestedSize || !signal.suggestedPrice) {
     return { success: false, message: "Invalid buy signal: missing outcome/size/price", dryRun: false };
@@ -53,75 +84,199 @@ export async function executeBuy(
     return { success: false, message: `Guardrail blocked: ${check.reason}`, dryRun: false };
   }
 
-  // Dry run mode: log but don't execute
+  // Dry run mode: paper-trade against the order book (see paper-trader)
+  incCounter("order_attempts_total", { side: "BUY", mode: config.dryRun ? "paper" : "live" });
   if (config.dryRun) {
-    const msg = `[DRY RUN] Would BUY ${signal.suggestedSize} shares of "${signal.outcome.outcome}" @ $${signal.suggestedPrice.toFixed(2)} ($${orderCost.toFixed(2)} total) — ${signal.reason}`;
-    logger(msg);
+    const fill = await simulateFill(
+      { tokenId: signal.outcome.tokenId, side: "BUY", size: signal.suggestedSize, price: signal.suggestedPrice, orderType: signal.orderType },
+      config.paper,
+    );
+    if (fill.filledSize <= 0) {
+      return countResult("BUY", config, { success: false, message: `[PAPER] BUY not filled: ${fill.reason}`, dryRun: true });
+    }
 
     // Still record in guardrails so dry-run respects limits
     recordTrade({
       conditionId: market.conditionId,
       tokenId: signal.outcome.tokenId,
       outcome: signal.outcome.outcome,
-      entryPrice: signal.suggestedPrice,
-      size: signal.suggestedSize,
-      costBasis: orderCost,
-      entryTime: Date.now(),
+      entryPrice: fill.avgPrice,
+      size: fill.filledSize,
+      costBasis: fill.amount,
+      entryTime: now(),
       marketSlug: market.slug,
       negRisk: market.negRisk,
+      strategy: signal.strategy,
     });
 
-    logBuy({ slug: market.slug, outcome: signal.outcome.outcome, price: signal.suggestedPrice, size: signal.suggestedSize, cost: orderCost, orderId: "dry-run" });
+    logBuy({ slug: market.slug, outcome: signal.outcome.outcome, price: fill.avgPrice, size: fill.filledSize, cost: fill.amount, orderId: fill.orderId, conditionId: market.conditionId, tokenId: signal.outcome.tokenId, negRisk: market.negRisk, strategy: signal.strategy });
 
-    return { success: true, message: msg, dryRun: true };
+    const partial = fill.reason ? ` (partial: ${fill.reason})` : "";
+    const msg = `[PAPER] BUY ${fill.filledSize}/${signal.suggestedSize} shares of "${signal.outcome.outcome}" @ avg $${fill.avgPrice.toFixed(3)} ($${fill.amount.toFixed(2)} total)${partial} — ${signal.reason}`;
+    logger.info(msg, { slug: market.slug, orderId: fill.orderId, side: "BUY", filled: fill.filledSize, avgPrice: fill.avgPrice });
+    notify("fill", `[PAPER] BUY ${market.slug}`, msg);
+    return countResult("BUY", config, { success: true, orderId: fill.orderId, message: msg, dryRun: true });
   }
 
   // Live execution
   if (!isClientReady()) {
-    return { success: false, message: "Client not initialized", dryRun: false };
+    return countResult("BUY", config, { success: false, message: "Client not initialized", dryRun: false });
   }
 
+  const orderType = signal.orderType ?? "GTC";
   try {
-    const client = getClient();
-    const response = await client.createAndPostOrder(
-      {
-        tokenID: signal.outcome.tokenId,
-        price: signal.suggestedPrice,
-        size: signal.suggestedSize,
-        side: Side.BUY,
-      },
-      {
-        tickSize: toTickSize(market.tickSize),
-        negRisk: market.negRisk,
-      },
-      OrderType.GTC, // Good-Till-Cancelled limit order
-    );
+    const order = {
+      tokenID: signal.outcome.tokenId,
+      price: signal.suggestedPrice,
+      size: signal.suggestedSize,
+      side: Side.BUY,
+    };
+    const response = await postOrder(order, market, orderType);
 
     const orderId = response?.orderID || "unknown";
     const status = response?.status || "unknown";
 
     if (status === "matched" || status === "live") {
-      recordTrade({
+      // Record the requested size for now; the order tracker corrects it to
+      // the actual fill once the order is done.
+      const position = {
         conditionId: market.conditionId,
         tokenId: signal.outcome.tokenId,
         outcome: signal.outcome.outcome,
         entryPrice: signal.suggestedPrice,
         size: signal.suggestedSize,
         costBasis: orderCost,
-        entryTime: Date.now(),
+        entryTime: now(),
         marketSlug: market.slug,
         negRisk: market.negRisk,
-      });
+        strategy: signal.strategy,
+      };
+      recordTrade(position);
+
+      logBuy({ slug: market.slug, outcome: signal.outcome.outcome, price: signal.suggestedPrice, size: signal.suggestedSize, cost: orderCost, orderId, conditionId: market.conditionId, tokenId: signal.outcome.tokenId, negRisk: market.negRisk, strategy: signal.strategy });
+
+      if (orderId !== "unknown") {
+        trackOrder({
+          orderId,
+          side: "BUY",
+          conditionId: market.conditionId,
+          slug: market.slug,
+          requestedSize: signal.suggestedSize,
+          limitPrice: signal.suggestedPrice,
+          placedAt: position.entryTime,
+          marketEndTime: market.endTime,
+          position,
+        });
+      }
+
+      const verb = status === "matched" ? "BUY FILLED" : "BUY PLACED";
+      const msg = `${verb}: ${signal.suggestedSize} shares of "${signal.outcome.outcome}" @ $${signal.suggestedPrice.toFixed(2)} ($${orderCost.toFixed(2)}, ${orderType}) — Order ${orderId}`;
+      logger.info(msg, { slug: market.slug, orderId, side: "BUY", orderType, status, size: signal.suggestedSize, price: signal.suggestedPrice });
+      notify("fill", `${verb} ${market.slug}`, msg);
+      return countResult("BUY", config, { success: true, orderId, message: msg, dryRun: false });
+    }
+
+    return countResult("BUY", config, { success: false, message: `Order not filled. Status: ${status}, ID: ${orderId}`, dryRun: false });
+  } catch (err: any) {
+    return countResult("BUY", config, { success: false, message: `Buy failed: ${err.message || err}`, dryRun: false });
+  }
+}
+
+/**
+ * Execute a SELL signal: place a limit order to exit the held position.
+ */
+export async function executeSell(
+  signal: TradeSignal,
+  market: ActiveMarket,
+  config: TraderConfig,
+  logger: Logger,
+): Promise<ExecutionResult> {
+  if (!signal.outcome || !signal.suggestedSize || !signal.suggestedPrice || !signal.exitType) {
+    return { success: false, message: "Invalid sell signal: missing outcome/size/price/exitType", dryRun: false };
+  }
+
+  const position = getGuardrailState().openPositions.get(market.conditionId);
+  if (!position) {
+    return { success: false, message: `No open position to sell in ${market.slug}`, dryRun: false };
+  }
+
+  if (hasOpenOrder(market.conditionId, "SELL")) {
+    return { success: false, message: `Sell order already working in ${market.slug}`, dryRun: false };
+  }
+
+  const proceeds = signal.suggestedSize * signal.suggestedPrice;
+
+  incCounter("order_attempts_total", { side: "SELL", mode: config.dryRun ? "paper" : "live" });
+  if (config.dryRun) {
+    const fill = await simulateFill(
+      { tokenId: signal.outcome.tokenId, side: "SELL", size: signal.suggestedSize, price: signal.suggestedPrice, orderType: signal.orderType },
+      config.paper,
+    );
+    if (fill.filledSize <= 0) {
+      return countResult("SELL", config, { success: false, message: `[PAPER] SELL not filled: ${fill.reason}`, dryRun: true });
+    }
+
+    const remaining = position.size - fill.filledSize;
+    if (remaining > 0) {
+      updatePosition({ ...position, size: remaining, costBasis: position.costBasis * (remaining / position.size) });
+    } else {
+      closePosition(market.conditionId);
+    }
+    logSell({ slug: market.slug, outcome: signal.outcome.outcome, price: fill.avgPrice, size: fill.filledSize, proceeds: fill.amount, orderId: fill.orderId, exitType: signal.exitType, reason: signal.reason });
+
+    const partial = fill.reason ? ` (partial: ${fill.reason})` : "";
+    const msg = `[PAPER] SELL ${fill.filledSize}/${signal.suggestedSize} shares of "${signal.outcome.outcome}" @ avg $${fill.avgPrice.toFixed(3)} ($${fill.amount.toFixed(2)} total)${partial} — ${signal.reason}`;
+    logger.info(msg, { slug: market.slug, orderId: fill.orderId, side: "SELL", exitType: signal.exitType, filled: fill.filledSize, avgPrice: fill.avgPrice });
+    notify("fill", `[PAPER] SELL ${market.slug}`, msg);
+    return countResult("SELL", config, { success: true, orderId: fill.orderId, message: msg, dryRun: true });
+  }
+
+  if (!isClientReady()) {
+    return countResult("SELL", config, { success: false, message: "Client not initialized", dryRun: false });
+  }
+
+  const orderType = signal.orderType ?? "GTC";
+  try {
+    const order = {
+      tokenID: signal.outcome.tokenId,
+      price: signal.suggestedPrice,
+      size: signal.suggestedSize,
+      side: Side.SELL,
+    };
+    const response = await postOrder(order, market, orderType);
+
+    const orderId = response?.orderID || "unknown";
+    const status = response?.status || "unknown";
+
+    if (status === "matched" || status === "live") {
+      logSell({ slug: market.slug, outcome: signal.outcome.outcome, price: signal.suggestedPrice, size: signal.suggestedSize, proceeds, orderId, exitType: signal.exitType, reason: signal.reason });
 
-      logBuy({ slug: market.slug, outcome: signal.outcome.outcome, price: signal.suggestedPrice, size: signal.suggestedSize, cost: orderCost, orderId });
+      // The position stays open, at full size, until the order tracker learns
+      // what actually sold; without an order ID there's nothing to track
+      if (orderId === "unknown") {
+        closePosition(market.conditionId);
+      } else {
+        trackOrder({
+          orderId,
+          side: "SELL",
+          conditionId: market.conditionId,
+          slug: market.slug,
+          requestedSize: signal.suggestedSize,
+          limitPrice: signal.suggestedPrice,
+          placedAt: now(),
+          marketEndTime: market.endTime,
+          position,
+        });
+      }
 
-      const msg = `BUY FILLED: ${signal.suggestedSize} shares of "${signal.outcome.outcome}" @ $${signal.suggestedPrice.toFixed(2)} ($${orderCost.toFixed(2)}) — Order ${orderId}`;
-      logger(msg);
-      return { success: true, orderId, message: msg, dryRun: false };
+      const msg = `SELL ${status === "matched" ? "FILLED" : "PLACED"}: ${signal.suggestedSize} shares of "${signal.outcome.outcome}" @ $${signal.suggestedPrice.toFixed(2)} ($${proceeds.toFixed(2)}, ${orderType}) — Order ${orderId}`;
+      logger.info(msg, { slug: market.slug, orderId, side: "SELL", orderType, exitType: signal.exitType, status, size: signal.suggestedSize, price: signal.suggestedPrice });
+      notify("fill", `SELL ${status === "matched" ? "FILLED" : "PLACED"} ${market.slug}`, msg);
+      return countResult("SELL", config, { success: true, orderId, message: msg, dryRun: false });
     }
 
-    return { success: false, message: `Order not filled. Status: ${status}, ID: ${orderId}`, dryRun: false };
+    return countResult("SELL", config, { success: false, message: `Sell not filled. Status: ${status}, ID: ${orderId}`, dryRun: false });
   } catch (err: any) {
-    return { success: false, message: `Buy failed: ${err.message || err}`, dryRun: false };
+    return countResult("SELL", config, { success: false, message: `Sell failed: ${err.message || err}`, dryRun: false });
   }
 }
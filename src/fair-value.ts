@@ -0,0 +1,120 @@
+/**
+ * Fair-value model for Up/Down markets, driven by the series' spot price.
+ *
+ * Each market resolves "Up" if the asset finishes at or above its price at
+ * the market's start. Treating the remaining move as a driftless log-normal
+ * walk,
+ *
+ *   P(Up) = Φ( ln(spot / open) / (σ · √(secondsRemaining / durationSec)) )
+ *
+ * where σ is the volatility over one market's duration. estimateShortTermVol()
+ * gives the mean absolute move over that duration, which for a normal move is
+ * σ·√(2/π), so it is scaled by √(π/2) to get σ.
+ *
+ * The open is recorded from spot when the market is first seen within a few
+ * seconds of its start, otherwise recovered from the 1-minute candle.
+ */
+
+import { ActiveMarket } from "./market-discovery.js";
+import { getSpotPrice, getSpotPriceAt, estimateShortTermVol } from "./price-feed.js";
+import type { MarketSeries } from "./market-series.js";
+import { now } from "./clock.js";
+
+export interface FairValue {
+  open: number;               // Spot at market start
+  spot: number;               // Spot now
+  vol: number;                // σ over one market duration, as a fraction
+  up: number;                 // Fair probability / price of "Up"
+  down: number;               // Fair probability / price of "Down"
+}
+
+const OPEN_FROM_SPOT_MAX_LAG_SEC = 15;
+const VOL_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_TRACKED_OPENS = 16;
+
+const openPrices = new Map<string, number>();
+const cachedVol = new Map<string, { value: number; time: number }>(); // Series id -> σ
+
+/**
+ * Spot price at the market's start, recorded once per market.
+ */
+export async function getMarketOpenPrice(market: ActiveMarket): Promise<number> {
+  const known = openPrices.get(market.slug);
+  if (known !== undefined) return known;
+
+  const nowSec = Math.floor(now() / 1000);
+  const open = nowSec >= market.startTime && nowSec - market.startTime <= OPEN_FROM_SPOT_MAX_LAG_SEC
+    ? await getSpotPrice(market.series)
+    : await getSpotPriceAt(market.series, market.startTime);
+
+  openPrices.set(market.slug, open);
+  for (const slug of openPrices.keys()) {
+    if (openPrices.size <= MAX_TRACKED_OPENS) break;
+    openPrices.delete(slug);
+  }
+  return open;
+}
+
+/**
+ * Forget recorded opens and cached volatility, e.g. before a backtest
+ * replays a dataset under its own clock.
+ */
+export function resetFairValueCache(): void {
+  openPrices.clear();
+  cachedVol.clear();
+}
+
+/**
+ * Compute the fair value of both outcomes. Returns null if spot prices are
+ * unavailable or the market hasn't started yet.
+ */
+export async function computeFairValue(market: ActiveMarket): Promise<FairValue | null> {
+  const nowSec = Math.floor(now() / 1000);
+  if (nowSec < market.startTime) return null;
+
+  try {
+    const open = await getMarketOpenPrice(market);
+    const spot = await getSpotPrice(market.series);
+    const vol = await getVol(market.series);
+
+    let up: number;
+    if (market.secondsRemaining <= 0 || vol <= 0) {
+      up = spot >= open ? 1 : 0;
+    } else {
+      const sigma = vol * Math.sqrt(market.secondsRemaining / market.series.durationSec);
+      up = normalCdf(Math.log(spot / open) / sigma);
+    }
+
+    return { open, spot, vol, up, down: 1 - up };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fair value of one outcome.
+ */
+export function fairValueOf(fv: FairValue, outcome: "Up" | "Down"): number {
+  return outcome === "Up" ? fv.up : fv.down;
+}
+
+async function getVol(series: MarketSeries): Promise<number> {
+  const nowMs = now();
+  const cached = cachedVol.get(series.id);
+  if (cached && nowMs - cached.time < VOL_CACHE_TTL_MS) return cached.value;
+  const meanAbsMove = await estimateShortTermVol(series);
+  const value = meanAbsMove * Math.sqrt(Math.PI / 2);
+  cachedVol.set(series.id, { value, time: nowMs });
+  return value;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7).
+ */
+function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
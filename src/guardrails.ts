@@ -1,9 +1,20 @@
 /**
- * Minimal risk management: killswitch, enabled check, order size cap.
- * Tracks open positions in-memory (resets on restart).
+ * Risk management: killswitch, enabled check, order size cap, total exposure
+ * cap, daily realized-loss limit and an hourly trade rate limit.
+ *
+ * State is snapshotted to guardrails-state.json on every change and rebuilt
+ * from it on startup (see loadGuardrailState), reconciled against trades.jsonl.
+ * An activated killswitch survives restarts until an operator clears it.
  */
 
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
 import { TraderConfig } from "./config.js";
+import { getRealizedPnlSince, hasResolution, readTradeLog } from "./trade-log.js";
+import { now } from "./clock.js";
+import { notify } from "./notifier.js";
+import type { Logger } from "./logger.js";
+
+let stateFile: string | null = "./guardrails-state.json";
 
 export interface PositionRecord {
   conditionId: string;
@@ -15,29 +26,50 @@ export interface PositionRecord {
   entryTime: number;          // Unix ms
   marketSlug: string;
   negRisk: boolean;
+  strategy?: string;          // Strategy that opened the position
 }
 
 export interface GuardrailState {
   openPositions: Map<string, PositionRecord>;
   killswitch: boolean;
+  killswitchReason?: string;
+  killswitchAt?: number;      // Unix ms
+  tradeTimes: number[];       // Unix ms of trades placed in the last hour
 }
 
 let state: GuardrailState = {
   openPositions: new Map(),
   killswitch: false,
+  tradeTimes: [],
 };
 
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * On-disk form of GuardrailState (Map flattened to an array).
+ */
+interface GuardrailSnapshot {
+  savedAt: string;
+  openPositions: PositionRecord[];
+  killswitch: boolean;
+  killswitchReason?: string;
+  killswitchAt?: number;
+  tradeTimes: number[];
+}
+
 export interface PreTradeCheck {
   allowed: boolean;
   reason?: string;
 }
 
 /**
- * Run pre-trade checks: killswitch, enabled, order size.
+ * Run pre-trade checks: killswitch, enabled, order size, exposure,
+ * daily loss and hourly trade count. Trips the killswitch if the daily
+ * loss limit has been reached.
  */
 export function checkPreTrade(config: TraderConfig, orderSizeUSDC: number): PreTradeCheck {
   if (state.killswitch) {
-    return { allowed: false, reason: "KILLSWITCH active — trading halted" };
+    return { allowed: false, reason: `KILLSWITCH active — trading halted (${state.killswitchReason ?? "no reason given"})` };
   }
 
   if (!config.enabled) {
@@ -48,6 +80,26 @@ export function checkPreTrade(config: TraderConfig, orderSizeUSDC: number): PreT
     return { allowed: false, reason: `Order size $${orderSizeUSDC} exceeds max $${config.maxOrderSize}` };
   }
 
+  const dailyLoss = -getRealizedPnlSince(startOfUtcDay(now()));
+  if (dailyLoss >= config.maxDailyLoss) {
+    const reason = `Daily loss $${dailyLoss.toFixed(2)} reached max $${config.maxDailyLoss}`;
+    activateKillswitch(reason);
+    return { allowed: false, reason: `KILLSWITCH activated — ${reason}` };
+  }
+
+  const exposure = getOpenExposure();
+  if (exposure + orderSizeUSDC > config.maxPositionSize) {
+    return {
+      allowed: false,
+      reason: `Exposure $${exposure.toFixed(2)} + order $${orderSizeUSDC.toFixed(2)} exceeds max position size $${config.maxPositionSize}`,
+    };
+  }
+
+  const tradesLastHour = pruneTradeTimes(now());
+  if (tradesLastHour >= config.maxTradesPerHour) {
+    return { allowed: false, reason: `${tradesLastHour} trades in the last hour (max ${config.maxTradesPerHour})` };
+  }
+
   return { allowed: true };
 }
 
@@ -56,13 +108,66 @@ export function checkPreTrade(config: TraderConfig, orderSizeUSDC: number): PreT
  */
 export function recordTrade(position: PositionRecord): void {
   state.openPositions.set(position.conditionId, position);
+  state.tradeTimes.push(position.entryTime);
+  saveState();
+}
+
+/**
+ * Replace a position's size/price/cost, e.g. after the order tracker learns
+ * what actually filled. Unlike recordTrade this does not count as a new trade.
+ */
+export function updatePosition(position: PositionRecord): void {
+  state.openPositions.set(position.conditionId, position);
+  saveState();
 }
 
 /**
- * Activate the killswitch (soft stop).
+ * Remove a position after it has been sold, or when its order never filled.
+ */
+export function closePosition(conditionId: string): void {
+  if (state.openPositions.delete(conditionId)) saveState();
+}
+
+/**
+ * Activate the killswitch (soft stop). Persisted, so it stays on across restarts.
  */
 export function activateKillswitch(reason: string): void {
+  if (state.killswitch) return;
   state.killswitch = true;
+  state.killswitchReason = reason;
+  state.killswitchAt = now();
+  saveState();
+  notify("killswitch", "KILLSWITCH activated", reason);
+}
+
+/**
+ * Clear the killswitch. Operator action only — nothing in the bot calls this.
+ */
+export function clearKillswitch(): void {
+  state.killswitch = false;
+  state.killswitchReason = undefined;
+  state.killswitchAt = undefined;
+  saveState();
+  notify("killswitch", "Killswitch cleared", "Trading can resume");
+}
+
+/**
+ * Total USDC cost basis across open positions. Positions whose market has
+ * a logged resolution are dropped first — their risk is already realized.
+ */
+export function getOpenExposure(): number {
+  let total = 0;
+  let pruned = false;
+  for (const [conditionId, position] of state.openPositions) {
+    if (hasResolution(position.marketSlug)) {
+      state.openPositions.delete(conditionId);
+      pruned = true;
+      continue;
+    }
+    total += position.costBasis;
+  }
+  if (pruned) saveState();
+  return total;
 }
 
 /**
@@ -74,3 +179,137 @@ export function getGuardrailState(): GuardrailState & { positionsList: PositionR
     positionsList: Array.from(state.openPositions.values()),
   };
 }
+
+/**
+ * Change where state is persisted; null disables persistence (backtests).
+ * Returns the previous setting.
+ */
+export function setGuardrailStateFile(path: string | null): string | null {
+  const previous = stateFile;
+  stateFile = path;
+  return previous;
+}
+
+/**
+ * Forget all positions, counters and the killswitch (in memory only).
+ */
+export function resetGuardrailState(): void {
+  state = { openPositions: new Map(), killswitch: false, tradeTimes: [] };
+}
+
+/**
+ * Rebuild state from the on-disk snapshot, then reconcile it with trades.jsonl:
+ * - positions whose market has resolved are dropped
+ * - unresolved buys missing from the snapshot are restored as positions,
+ *   less any shares already sold (fill corrections are applied by readTradeLog)
+ *   (only entries that carry conditionId/tokenId can be restored)
+ * - buys from the last hour are merged into the trade rate counter
+ * Call once at startup, before the trading loop starts.
+ */
+export function loadGuardrailState(logger: Logger): void {
+  if (stateFile && existsSync(stateFile)) {
+    try {
+      const snap: GuardrailSnapshot = JSON.parse(readFileSync(stateFile, "utf-8"));
+      state = {
+        openPositions: new Map((snap.openPositions || []).map((p) => [p.conditionId, p])),
+        killswitch: snap.killswitch ?? false,
+        killswitchReason: snap.killswitchReason,
+        killswitchAt: snap.killswitchAt,
+        tradeTimes: snap.tradeTimes || [],
+      };
+      logger.info(`Loaded state snapshot from ${snap.savedAt}`, { file: stateFile });
+    } catch (err: any) {
+      logger.warn(`Failed to read ${stateFile}: ${err.message} — starting from trades.jsonl only`);
+    }
+  }
+
+  const nowMs = now();
+  const entries = readTradeLog();
+  const resolved = new Set(entries.filter((e) => e.type === "resolution").map((e) => e.slug));
+  const soldSize = new Map<string, number>();
+  for (const e of entries) {
+    if (e.type === "sell") soldSize.set(e.slug, (soldSize.get(e.slug) ?? 0) + e.size);
+  }
+  const knownSlugs = new Set(Array.from(state.openPositions.values()).map((p) => p.marketSlug));
+  let unrestorable = 0;
+
+  for (const [conditionId, position] of state.openPositions) {
+    if (resolved.has(position.marketSlug)) state.openPositions.delete(conditionId);
+  }
+
+  for (const e of entries) {
+    if (e.type !== "buy") continue;
+    const entryTime = Date.parse(e.time);
+
+    // recordTrade and logBuy stamp their own clocks, so match loosely
+    if (nowMs - entryTime < ONE_HOUR_MS && !state.tradeTimes.some((t) => Math.abs(t - entryTime) < 5_000)) {
+      state.tradeTimes.push(entryTime);
+    }
+
+    const remaining = e.size - (soldSize.get(e.slug) ?? 0);
+    if (resolved.has(e.slug) || knownSlugs.has(e.slug) || remaining <= 0) continue;
+    if (!e.conditionId || !e.tokenId) {
+      unrestorable++;
+      continue;
+    }
+    state.openPositions.set(e.conditionId, {
+      conditionId: e.conditionId,
+      tokenId: e.tokenId,
+      outcome: e.outcome,
+      entryPrice: e.price,
+      size: remaining,
+      costBasis: e.cost * (remaining / e.size),
+      entryTime,
+      marketSlug: e.slug,
+      negRisk: e.negRisk ?? false,
+      strategy: e.strategy,
+    });
+    knownSlugs.add(e.slug);
+  }
+
+  pruneTradeTimes(nowMs);
+  saveState();
+
+  if (unrestorable > 0) {
+    logger.warn(`${unrestorable} unresolved buy(s) in trades.jsonl predate conditionId logging — not restored as positions`);
+  }
+
+  logger.info(`${state.openPositions.size} open position(s), ${state.tradeTimes.length} trade(s) in the last hour`);
+  if (state.killswitch) {
+    const since = state.killswitchAt ? new Date(state.killswitchAt).toISOString() : "unknown time";
+    logger.warn(`KILLSWITCH is active since ${since}: ${state.killswitchReason ?? "no reason given"}`);
+  }
+}
+
+/**
+ * Write the current state to disk (temp file + rename, so a crash mid-write
+ * never leaves a truncated snapshot).
+ */
+function saveState(): void {
+  if (!stateFile) return;
+  const snap: GuardrailSnapshot = {
+    savedAt: new Date().toISOString(),
+    openPositions: Array.from(state.openPositions.values()),
+    killswitch: state.killswitch,
+    killswitchReason: state.killswitchReason,
+    killswitchAt: state.killswitchAt,
+    tradeTimes: state.tradeTimes,
+  };
+  try {
+    writeFileSync(stateFile + ".tmp", JSON.stringify(snap, null, 2));
+    renameSync(stateFile + ".tmp", stateFile);
+  } catch {}
+}
+
+/**
+ * Drop trade timestamps older than one hour; returns how many remain.
+ */
+function pruneTradeTimes(nowMs: number): number {
+  state.tradeTimes = state.tradeTimes.filter((t) => nowMs - t < ONE_HOUR_MS);
+  return state.tradeTimes.length;
+}
+
+function startOfUtcDay(nowMs: number): number {
+  const d = new Date(nowMs);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
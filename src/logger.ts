@@ -0,0 +1,125 @@
+/**
+ * Structured, leveled logger.
+ *
+ * Every log line has a level, a component tag (service, executor, orders,
+ * redeemer, ...) and optional JSON fields (slug, orderId, txHash, signal,
+ * ...). Lines go to the console in a readable form and, if enabled, as one
+ * JSON object per line to logs/<prefix>-YYYY-MM-DD.log (UTC), rolling over
+ * to .1, .2, ... at maxFileMB.
+ *
+ * Modules receive a Logger and tag their lines by calling child() with
+ * their component name where the logger is handed in.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, statSync } from "fs";
+import { join } from "path";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Logger for a component; fields given here are added to every line. */
+  child(component: string, fields?: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  console: boolean;
+  file: { dir: string; maxFileMB: number; prefix: string } | null;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Shared by a root logger and all of its children.
+ */
+interface Output {
+  options: LoggerOptions;
+  currentFile: { day: string; index: number } | null;
+}
+
+/**
+ * Create a root logger.
+ */
+export function createLogger(options: Partial<LoggerOptions> = {}, component = "main"): Logger {
+  const output: Output = {
+    options: { level: "info", console: true, file: null, ...options },
+    currentFile: null,
+  };
+  return makeLogger(output, component, {});
+}
+
+/**
+ * Logger that discards everything (backtests, scripts without --verbose).
+ */
+export const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+  child() {
+    return silentLogger;
+  },
+};
+
+function makeLogger(output: Output, component: string, base: LogFields): Logger {
+  const write = (level: LogLevel) => (msg: string, fields?: LogFields) =>
+    emit(output, level, component, msg, { ...base, ...fields });
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    child: (name, fields) => makeLogger(output, name, { ...base, ...fields }),
+  };
+}
+
+function emit(output: Output, level: LogLevel, component: string, msg: string, fields: LogFields): void {
+  if (LEVELS[level] < LEVELS[output.options.level]) return;
+  const time = new Date().toISOString();
+
+  if (output.options.console) {
+    const line = `${time} ${level.toUpperCase().padEnd(5)} [${component}] ${msg}${formatFields(fields)}`;
+    if (level === "error" || level === "warn") console.error(line);
+    else console.log(line);
+  }
+
+  if (output.options.file) {
+    try {
+      appendFileSync(currentPath(output), JSON.stringify({ time, level, component, msg, ...fields }) + "\n");
+    } catch {}
+  }
+}
+
+function formatFields(fields: LogFields): string {
+  const parts = Object.entries(fields)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`);
+  return parts.length > 0 ? `  ${parts.join(" ")}` : "";
+}
+
+/**
+ * Path of the log file to append to, rotating by UTC day and by size.
+ */
+function currentPath(output: Output): string {
+  const file = output.options.file!;
+  mkdirSync(file.dir, { recursive: true });
+  const day = new Date().toISOString().slice(0, 10);
+  if (!output.currentFile || output.currentFile.day !== day) output.currentFile = { day, index: 0 };
+
+  const maxBytes = file.maxFileMB * 1024 * 1024;
+  let path = fileFor(file.dir, file.prefix, day, output.currentFile.index);
+  while (existsSync(path) && statSync(path).size >= maxBytes) {
+    output.currentFile.index++;
+    path = fileFor(file.dir, file.prefix, day, output.currentFile.index);
+  }
+  return path;
+}
+
+function fileFor(dir: string, prefix: string, day: string, index: number): string {
+  return join(dir, `${prefix}-${day}${index > 0 ? `.${index}` : ""}.log`);
+}
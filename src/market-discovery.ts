@@ -1,21 +1,38 @@
 /**
- * Market discovery: find the current active BTC 15-minute market.
+ * Market discovery: find the current active market of a market series.
  *
- * Market slug pattern: btc-updown-15m-{unixStartTimestamp}
- * Markets start every 15 minutes (900 seconds), aligned to Unix epoch.
- * Each market has two outcomes: "Up" and "Down".
+ * Slugs follow the series' slugTemplate (e.g. btc-updown-15m-{start}), and
+ * markets start every durationSec, aligned to Unix epoch (see market-series).
+ * Each market has two outcomes: "Up" and "Down". Each outcome carries its
+ * CLOB order book (best first on both sides) alongside the midpoint, so
+ * strategies can price and size orders from the available depth. Books come
+ * from the live WebSocket stream when it has them (see market-stream), else
+ * from REST. Gamma metadata for a found market is cached for a minute, so
+ * repeated discovery within a market costs no Gamma calls.
  */
 
-import { GAMMA_HOST, MARKET_DURATION_SEC } from "./config.js";
+import type { OrderSummary } from "@polymarket/clob-client";
+
+import { GAMMA_HOST } from "./config.js";
 import { getClient, isClientReady } from "./client.js";
+import { timeCall } from "./metrics.js";
+import { MarketSeries, buildMarketSlug, getSlotStart } from "./market-series.js";
+import { getLiveBook } from "./market-stream.js";
+
+export type BookLevel = [price: number, size: number];
 
 export interface MarketOutcome {
   tokenId: string;
   outcome: "Up" | "Down";
-  price: number;
+  price: number;              // Midpoint; 0 if unavailable
+  bestBid?: number | null;
+  bestAsk?: number | null;
+  bids?: BookLevel[];         // Best first; omitted when the book wasn't fetched
+  asks?: BookLevel[];         // Best first
 }
 
 export interface ActiveMarket {
+  series: MarketSeries;
   conditionId: string;
   slug: string;
   question: string;
@@ -30,27 +47,35 @@ export interface ActiveMarket {
 }
 
 /**
- * Calculate the Unix start timestamp of the current 15-minute slot.
+ * A market as the Gamma API returns it. Field names come in camelCase or
+ * snake_case and lists as JSON strings or arrays, so both forms are typed.
  */
-function getCurrentSlotStart(nowSec?: number): number {
-  const now = nowSec ?? Math.floor(Date.now() / 1000);
-  return Math.floor(now / MARKET_DURATION_SEC) * MARKET_DURATION_SEC;
+export interface GammaMarket {
+  conditionId?: string;
+  condition_id?: string;
+  question?: string;
+  outcomes?: string | string[];      // e.g. '["Up", "Down"]'
+  outcomePrices?: string | string[]; // e.g. '["1", "0"]' once resolved
+  clobTokenIds?: string | string[];  // In outcome order
+  clob_token_ids?: string[];
+  minimumTickSize?: string;
+  minimum_tick_size?: string;
+  negRisk?: boolean;
+  neg_risk?: boolean;
+  closed?: boolean;
 }
 
-/**
- * Build the expected market slug for a given slot start time.
- */
-function buildMarketSlug(slotStartSec: number): string {
-  return `btc-updown-15m-${slotStartSec}`;
-}
+const METADATA_TTL_MS = 60_000;
+
+const metadataCache = new Map<string, { raw: GammaMarket; time: number }>(); // Slug -> Gamma market
 
 /**
  * Fetch market metadata from the Gamma API by slug.
  * Returns null if market not found.
  */
-async function fetchMarketBySlug(slug: string): Promise<any | null> {
+export async function fetchMarketBySlug(slug: string): Promise<GammaMarket | null> {
   try {
-    const res = await fetch(`${GAMMA_HOST}/markets?slug=${slug}`);
+    const res = await timeCall("gamma", "markets", () => fetch(`${GAMMA_HOST}/markets?slug=${slug}`));
     if (!res.ok) return null;
     const markets = await res.json();
     if (!Array.isArray(markets) || markets.length === 0) return null;
@@ -61,34 +86,34 @@ async function fetchMarketBySlug(slug: string): Promise<any | null> {
 }
 
 /**
- * Discover the currently active BTC 15-minute market.
+ * Discover the currently active market of a series.
  * Tries current slot first, then previous slot (in case of timing edge).
  */
-export async function discoverCurrentMarket(): Promise<ActiveMarket | null> {
+export async function discoverCurrentMarket(series: MarketSeries): Promise<ActiveMarket | null> {
   const nowSec = Math.floor(Date.now() / 1000);
-  const currentSlotStart = getCurrentSlotStart(nowSec);
+  const currentSlotStart = getSlotStart(series, nowSec);
 
   // Try current slot
-  let market = await tryFetchActiveMarket(currentSlotStart, nowSec);
+  let market = await tryFetchActiveMarket(series, currentSlotStart, nowSec);
   if (market) return market;
 
   // Try previous slot (might still be resolving)
-  const prevSlotStart = currentSlotStart - MARKET_DURATION_SEC;
-  market = await tryFetchActiveMarket(prevSlotStart, nowSec);
+  const prevSlotStart = currentSlotStart - series.durationSec;
+  market = await tryFetchActiveMarket(series, prevSlotStart, nowSec);
   if (market) return market;
 
   // Try next slot (might already be listed for trading)
-  const nextSlotStart = currentSlotStart + MARKET_DURATION_SEC;
-  market = await tryFetchActiveMarket(nextSlotStart, nowSec);
+  const nextSlotStart = currentSlotStart + series.durationSec;
+  market = await tryFetchActiveMarket(series, nextSlotStart, nowSec);
   return market;
 }
 
-async function tryFetchActiveMarket(slotStart: number, nowSec: number): Promise<ActiveMarket | null> {
-  const slug = buildMarketSlug(slotStart);
-  const raw = await fetchMarketBySlug(slug);
+async function tryFetchActiveMarket(series: MarketSeries, slotStart: number, nowSec: number): Promise<ActiveMarket | null> {
+  const slug = buildMarketSlug(series, slotStart);
+  const raw = await fetchCachedMarket(slug);
   if (!raw) return null;
 
-  const endTime = slotStart + MARKET_DURATION_SEC;
+  const endTime = slotStart + series.durationSec;
   const secondsRemaining = Math.max(0, endTime - nowSec);
 
   // Parse token IDs and outcome labels from Gamma metadata
@@ -102,7 +127,7 @@ async function tryFetchActiveMarket(slotStart: number, nowSec: number): Promise<
     outcomeLabels = typeof raw.outcomes === "string" ? JSON.parse(raw.outcomes) : (raw.outcomes || []);
   } catch {
     tokenIds = raw.clob_token_ids || [];
-    outcomeLabels = raw.outcomes || [];
+    outcomeLabels = Array.isArray(raw.outcomes) ? raw.outcomes : [];
   }
 
   // Fetch live prices from CLOB orderbook instead of Gamma's stale outcomePrices
@@ -112,24 +137,40 @@ async function tryFetchActiveMarket(slotStart: number, nowSec: number): Promise<
     const label = (outcomeLabels[i] || "").toLowerCase();
     const outcome: "Up" | "Down" = label.includes("up") ? "Up" : "Down";
 
-    let price = 0;
-    if (client) {
+    const entry: MarketOutcome = { tokenId: tokenIds[i], outcome, price: 0 };
+    // Streamed book if the WebSocket feed has one, else REST
+    let book = getLiveBook(tokenIds[i]);
+    if (!book && client) {
       try {
-        const midpoint = await client.getMidpoint(tokenIds[i]);
-        price = parseFloat(midpoint?.mid ?? midpoint) || 0;
+        const raw = await timeCall("clob", "getOrderBook", () => client.getOrderBook(tokenIds[i]));
+        book = { bids: toBookLevels(raw.bids, "desc"), asks: toBookLevels(raw.asks, "asc") };
+      } catch {
+        // Book unavailable — fall back to the midpoint endpoint
+      }
+    }
+    if (book) {
+      entry.bids = book.bids;
+      entry.asks = book.asks;
+      entry.bestBid = book.bids[0]?.[0] ?? null;
+      entry.bestAsk = book.asks[0]?.[0] ?? null;
+    }
+
+    if (entry.bestBid && entry.bestAsk) {
+      entry.price = (entry.bestBid + entry.bestAsk) / 2;
+    } else if (client) {
+      try {
+        const midpoint = await timeCall("clob", "getMidpoint", () => client.getMidpoint(tokenIds[i]));
+        entry.price = parseFloat(midpoint?.mid ?? midpoint) || 0;
       } catch {
         // CLOB midpoint failed — skip this outcome
       }
     }
 
-    outcomes.push({
-      tokenId: tokenIds[i],
-      outcome,
-      price,
-    });
+    outcomes.push(entry);
   }
 
   return {
+    series,
     conditionId: raw.conditionId || raw.condition_id || "",
     slug,
     question: raw.question || "",
@@ -144,6 +185,42 @@ async function tryFetchActiveMarket(slotStart: number, nowSec: number): Promise<
   };
 }
 
+/**
+ * Gamma metadata for a market, from the cache while fresh. Misses aren't
+ * cached, so a market that isn't listed yet is picked up as soon as it is.
+ */
+async function fetchCachedMarket(slug: string): Promise<GammaMarket | null> {
+  const nowMs = Date.now();
+  const cached = metadataCache.get(slug);
+  if (cached && nowMs - cached.time < METADATA_TTL_MS) return cached.raw;
+
+  const raw = await fetchMarketBySlug(slug);
+  for (const [key, entry] of metadataCache) {
+    if (nowMs - entry.time >= METADATA_TTL_MS) metadataCache.delete(key);
+  }
+  if (raw) metadataCache.set(slug, { raw, time: nowMs });
+  return raw;
+}
+
+/**
+ * Parse CLOB book levels, dropping empty ones and sorting best first
+ * ("desc" for bids, "asc" for asks).
+ */
+export function toBookLevels(levels: OrderSummary[] | undefined, order: "asc" | "desc"): BookLevel[] {
+  return (levels || [])
+    .map((l): BookLevel => [parseFloat(l.price), parseFloat(l.size)])
+    .filter(([price, size]) => price > 0 && size > 0)
+    .sort((a, b) => (order === "asc" ? a[0] - b[0] : b[0] - a[0]));
+}
+
+/**
+ * Bid/ask spread of an outcome, or null if either side of the book is unknown.
+ */
+export function getSpread(outcome: MarketOutcome): number | null {
+  if (!outcome.bestBid || !outcome.bestAsk) return null;
+  return outcome.bestAsk - outcome.bestBid;
+}
+
 /**
  * Find the leading outcome (highest price) in a market.
  */
@@ -0,0 +1,237 @@
+/**
+ * Historical market store and base-rate analysis.
+ *
+ * backfillHistory() walks a series' slot timestamps over a date range and
+ * caches, per market, its Gamma metadata, resolution (see getWinner) and the
+ * "Up" token's minute-level CLOB price history. The store is an append-only
+ * NDJSON file, one record per market; a later record for a slug supersedes
+ * earlier ones. Resolved markets already in the store are never fetched
+ * again, so a backfill can be re-run or extended at any time; unresolved
+ * markets and empty slots are checked again on the next run.
+ *
+ * computeBaseRates() answers, from the store alone: how often does the
+ * leader at minute N of a market win, by the leader's price at that moment,
+ * by hour (UTC) and by weekday of the market's start.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { CLOB_HOST } from "./config.js";
+import { fetchMarketBySlug } from "./market-discovery.js";
+import { MarketSeries, buildMarketSlug, getSlotStart } from "./market-series.js";
+import { getWinner } from "./redeemer.js";
+import { timeCall } from "./metrics.js";
+import { Logger, silentLogger } from "./logger.js";
+
+export interface HistoricalMarket {
+  slug: string;
+  series: string;             // Market series id
+  conditionId: string;
+  question: string;
+  startTime: number;          // Unix seconds
+  endTime: number;            // Unix seconds
+  upTokenId: string;
+  downTokenId: string;
+  winner: "Up" | "Down" | null; // null = not resolved when fetched
+  prices: [time: number, up: number][]; // "Up" midpoint history, Unix seconds, oldest first
+  fetchedAt: number;          // Unix ms
+}
+
+export interface BaseRateGroup {
+  markets: number;
+  leaderWins: number;
+  avgLeaderPrice: number;
+}
+
+export interface BaseRates {
+  atMinute: number;
+  markets: number;            // Resolved markets with a price at atMinute
+  skipped: number;            // Resolved markets without one
+  overall: BaseRateGroup;
+  byPriceBucket: Record<string, BaseRateGroup>; // Leader price bucket, e.g. "0.60-0.65"
+  byHour: Record<number, BaseRateGroup>;        // UTC hour of market start
+  byWeekday: Record<number, BaseRateGroup>;     // UTC weekday of market start, 0 = Sunday
+}
+
+export interface BackfillResult {
+  fetched: number;            // Markets fetched and stored
+  cached: number;             // Already resolved in the store
+  missing: number;            // Slots with no market on Gamma
+}
+
+const REQUEST_DELAY_MS = 250;
+const PRICE_MAX_AGE_SEC = 120; // A price older than this at the sample time doesn't count
+
+/**
+ * Load a history store. Later records for a slug replace earlier ones;
+ * malformed lines are skipped.
+ */
+export function loadHistory(file: string): Map<string, HistoricalMarket> {
+  const markets = new Map<string, HistoricalMarket>();
+  if (!existsSync(file)) return markets;
+  for (const line of readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const m = JSON.parse(line) as HistoricalMarket;
+      if (m.slug) markets.set(m.slug, m);
+    } catch {}
+  }
+  return markets;
+}
+
+/**
+ * Fetch every market of `series` starting in [fromSec, toSec) that isn't
+ * already resolved in the store, and append it to the store.
+ */
+export async function backfillHistory(
+  series: MarketSeries,
+  fromSec: number,
+  toSec: number,
+  file: string,
+  logger: Logger = silentLogger,
+): Promise<BackfillResult> {
+  const stored = loadHistory(file);
+  const result: BackfillResult = { fetched: 0, cached: 0, missing: 0 };
+  const nowSec = Math.floor(Date.now() / 1000);
+  mkdirSync(dirname(file), { recursive: true });
+
+  let start = getSlotStart(series, fromSec);
+  if (start < fromSec) start += series.durationSec;
+  for (; start < toSec && start < nowSec; start += series.durationSec) {
+    const slug = buildMarketSlug(series, start);
+    if (stored.get(slug)?.winner) {
+      result.cached++;
+      continue;
+    }
+
+    const market = await fetchHistoricalMarket(series, slug, start);
+    await sleep(REQUEST_DELAY_MS);
+    if (!market) {
+      result.missing++;
+      logger.debug(`No market for ${slug}`, { slug });
+      continue;
+    }
+
+    appendFileSync(file, JSON.stringify(market) + "\n");
+    result.fetched++;
+    logger.info(`${slug} → ${market.winner ?? "unresolved"} (${market.prices.length} prices)`, { slug, resolved: market.winner });
+  }
+  return result;
+}
+
+async function fetchHistoricalMarket(series: MarketSeries, slug: string, startTime: number): Promise<HistoricalMarket | null> {
+  const raw = await fetchMarketBySlug(slug);
+  if (!raw) return null;
+
+  let tokenIds: string[] = [];
+  let outcomes: string[] = [];
+  try {
+    tokenIds = typeof raw.clobTokenIds === "string" ? JSON.parse(raw.clobTokenIds) : (raw.clobTokenIds || []);
+    outcomes = typeof raw.outcomes === "string" ? JSON.parse(raw.outcomes) : (raw.outcomes || []);
+  } catch {
+    return null;
+  }
+  const upIndex = outcomes.findIndex((o) => o.toLowerCase().includes("up"));
+  if (upIndex < 0 || tokenIds.length !== 2) return null;
+
+  const endTime = startTime + series.durationSec;
+  return {
+    slug,
+    series: series.id,
+    conditionId: raw.conditionId || raw.condition_id || "",
+    question: raw.question || "",
+    startTime,
+    endTime,
+    upTokenId: tokenIds[upIndex],
+    downTokenId: tokenIds[1 - upIndex],
+    winner: getWinner(raw),
+    prices: await fetchPriceHistory(tokenIds[upIndex], startTime, endTime),
+    fetchedAt: Date.now(),
+  };
+}
+
+/**
+ * Minute-level price history of a token over [startSec, endSec]. Empty if
+ * the CLOB has none (or the request fails).
+ */
+async function fetchPriceHistory(tokenId: string, startSec: number, endSec: number): Promise<[number, number][]> {
+  try {
+    const url = `${CLOB_HOST}/prices-history?market=${tokenId}&startTs=${startSec}&endTs=${endSec}&fidelity=1`;
+    const res = await timeCall("clob", "pricesHistory", () => fetch(url, { signal: AbortSignal.timeout(10_000) }));
+    if (!res.ok) return [];
+    const data = await res.json();
+    return (data?.history ?? [])
+      .map((h: any): [number, number] => [Number(h.t), Number(h.p)])
+      .filter(([t, p]: [number, number]) => t > 0 && p >= 0 && p <= 1)
+      .sort((a: [number, number], b: [number, number]) => a[0] - b[0]);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * "Up" price at a moment: the latest history point at or before it, if no
+ * older than PRICE_MAX_AGE_SEC.
+ */
+export function priceAt(market: HistoricalMarket, timeSec: number): number | null {
+  let price: number | null = null;
+  for (const [t, p] of market.prices) {
+    if (t > timeSec) break;
+    price = timeSec - t <= PRICE_MAX_AGE_SEC ? p : null;
+  }
+  return price;
+}
+
+/**
+ * How often the leader `atMinute` minutes into a market wins. Markets that
+ * aren't resolved, or have no price at that moment, are left out. A market
+ * tied at exactly $0.50 counts "Up" as the leader.
+ */
+export function computeBaseRates(markets: HistoricalMarket[], atMinute: number, bucketWidth = 0.05): BaseRates {
+  const rates: BaseRates = {
+    atMinute,
+    markets: 0,
+    skipped: 0,
+    overall: emptyGroup(),
+    byPriceBucket: {},
+    byHour: {},
+    byWeekday: {},
+  };
+
+  for (const m of markets) {
+    if (!m.winner) continue;
+    const up = priceAt(m, m.startTime + atMinute * 60);
+    if (up === null) {
+      rates.skipped++;
+      continue;
+    }
+
+    const leader = up >= 0.5 ? "Up" : "Down";
+    const leaderPrice = leader === "Up" ? up : 1 - up;
+    const won = m.winner === leader;
+    const start = new Date(m.startTime * 1000);
+    const lo = Math.min(Math.floor(leaderPrice / bucketWidth + 1e-9) * bucketWidth, 1 - bucketWidth);
+    const bucket = `${lo.toFixed(2)}-${(lo + bucketWidth).toFixed(2)}`;
+
+    rates.markets++;
+    addTo(rates.overall, leaderPrice, won);
+    addTo((rates.byPriceBucket[bucket] ??= emptyGroup()), leaderPrice, won);
+    addTo((rates.byHour[start.getUTCHours()] ??= emptyGroup()), leaderPrice, won);
+    addTo((rates.byWeekday[start.getUTCDay()] ??= emptyGroup()), leaderPrice, won);
+  }
+  return rates;
+}
+
+function emptyGroup(): BaseRateGroup {
+  return { markets: 0, leaderWins: 0, avgLeaderPrice: 0 };
+}
+
+function addTo(group: BaseRateGroup, leaderPrice: number, won: boolean): void {
+  group.avgLeaderPrice = (group.avgLeaderPrice * group.markets + leaderPrice) / (group.markets + 1);
+  group.markets++;
+  if (won) group.leaderWins++;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
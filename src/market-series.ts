@@ -0,0 +1,200 @@
+/**
+ * Market series: a recurring family of Up/Down markets on one asset, e.g.
+ * BTC 15-minute markets (btc-updown-15m-{start}).
+ *
+ * A series says how long each market runs, how its slug is built from the
+ * market's start timestamp, and which spot price feeds its fair value and
+ * price-driven strategies. Markets in a series start every durationSec,
+ * aligned to the Unix epoch.
+ *
+ * Slugs come in two forms. 15-minute and 4-hour markets embed the Unix start
+ * time ({start}). Hourly markets are named by their start in US Eastern time,
+ * e.g. bitcoin-up-or-down-october-19-8am-et, built from {month}, {day} and
+ * {hour}. Such a slug has no year, so parsing one picks the year that puts
+ * the start closest to now. Date-based templates need a whole number of
+ * hours per market.
+ *
+ * config.json "series" lists the series to trade, each either a preset id
+ * ("btc-15m") or a full definition.
+ */
+
+export interface MarketSeries {
+  id: string;                 // Name used in config and logs
+  asset: string;              // Underlying ticker, e.g. "BTC"
+  durationSec: number;        // Length of each market
+  slugTemplate: string;       // Market slug with "{start}" (Unix start time) or "{month}", "{day}", "{hour}" (start in ET)
+  priceSymbol: string;        // Binance spot symbol for the price feed, e.g. "BTCUSDT"
+  coingeckoId?: string;       // Fallback price source; omitted = Binance and Coinbase only
+}
+
+export const SERIES_PRESETS: MarketSeries[] = [
+  { id: "btc-15m", asset: "BTC", durationSec: 900, slugTemplate: "btc-updown-15m-{start}", priceSymbol: "BTCUSDT", coingeckoId: "bitcoin" },
+  { id: "eth-15m", asset: "ETH", durationSec: 900, slugTemplate: "eth-updown-15m-{start}", priceSymbol: "ETHUSDT", coingeckoId: "ethereum" },
+  { id: "sol-15m", asset: "SOL", durationSec: 900, slugTemplate: "sol-updown-15m-{start}", priceSymbol: "SOLUSDT", coingeckoId: "solana" },
+  { id: "xrp-15m", asset: "XRP", durationSec: 900, slugTemplate: "xrp-updown-15m-{start}", priceSymbol: "XRPUSDT", coingeckoId: "ripple" },
+  { id: "btc-1h", asset: "BTC", durationSec: 3600, slugTemplate: "bitcoin-up-or-down-{month}-{day}-{hour}-et", priceSymbol: "BTCUSDT", coingeckoId: "bitcoin" },
+  { id: "eth-1h", asset: "ETH", durationSec: 3600, slugTemplate: "ethereum-up-or-down-{month}-{day}-{hour}-et", priceSymbol: "ETHUSDT", coingeckoId: "ethereum" },
+  { id: "sol-1h", asset: "SOL", durationSec: 3600, slugTemplate: "solana-up-or-down-{month}-{day}-{hour}-et", priceSymbol: "SOLUSDT", coingeckoId: "solana" },
+  { id: "xrp-1h", asset: "XRP", durationSec: 3600, slugTemplate: "xrp-up-or-down-{month}-{day}-{hour}-et", priceSymbol: "XRPUSDT", coingeckoId: "ripple" },
+  { id: "btc-4h", asset: "BTC", durationSec: 14400, slugTemplate: "btc-updown-4h-{start}", priceSymbol: "BTCUSDT", coingeckoId: "bitcoin" },
+  { id: "eth-4h", asset: "ETH", durationSec: 14400, slugTemplate: "eth-updown-4h-{start}", priceSymbol: "ETHUSDT", coingeckoId: "ethereum" },
+  { id: "sol-4h", asset: "SOL", durationSec: 14400, slugTemplate: "sol-updown-4h-{start}", priceSymbol: "SOLUSDT", coingeckoId: "solana" },
+  { id: "xrp-4h", asset: "XRP", durationSec: 14400, slugTemplate: "xrp-updown-4h-{start}", priceSymbol: "XRPUSDT", coingeckoId: "ripple" },
+];
+
+const SLUG_TIME_ZONE = "America/New_York";
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+const DATE_PLACEHOLDERS = ["{month}", "{day}", "{hour}"];
+
+export const DEFAULT_SERIES = SERIES_PRESETS[0];
+
+/**
+ * Resolve config.json "series" entries (preset ids or full definitions).
+ * Throws on unknown presets and incomplete or duplicate definitions.
+ */
+export function resolveSeries(raw: unknown): MarketSeries[] {
+  if (raw === undefined || raw === null) return [DEFAULT_SERIES];
+  if (!Array.isArray(raw) || raw.length === 0) throw new Error("series must be a non-empty array");
+
+  const list = raw.map((entry): MarketSeries => {
+    if (typeof entry === "string") {
+      const preset = SERIES_PRESETS.find((s) => s.id === entry);
+      if (!preset) throw new Error(`Unknown series "${entry}" (presets: ${SERIES_PRESETS.map((s) => s.id).join(", ")})`);
+      return preset;
+    }
+    const s = entry as Partial<MarketSeries>;
+    const dated = s.slugTemplate !== undefined && isDateTemplate(s.slugTemplate);
+    if (!s.id || !s.asset || !s.priceSymbol || !(s.slugTemplate?.includes("{start}") || dated) || !(s.durationSec! > 0)) {
+      throw new Error(`Series ${JSON.stringify(entry)} needs id, asset, durationSec, priceSymbol and a slugTemplate containing {start} or {month}, {day} and {hour}`);
+    }
+    if (dated && s.durationSec! % 3600 !== 0) {
+      throw new Error(`Series "${s.id}": a {month}/{day}/{hour} slug can't name markets of ${s.durationSec}s — use {start}, or whole hours`);
+    }
+    return s as MarketSeries;
+  });
+
+  const ids = new Set<string>();
+  for (const s of list) {
+    if (ids.has(s.id)) throw new Error(`Series "${s.id}" listed twice`);
+    ids.add(s.id);
+  }
+  return list;
+}
+
+/**
+ * Start time of the market slot containing `nowSec`.
+ */
+export function getSlotStart(series: MarketSeries, nowSec: number): number {
+  return Math.floor(nowSec / series.durationSec) * series.durationSec;
+}
+
+/**
+ * Slug of the series' market starting at `slotStartSec`.
+ */
+export function buildMarketSlug(series: MarketSeries, slotStartSec: number): string {
+  if (!isDateTemplate(series.slugTemplate)) return series.slugTemplate.replace("{start}", String(slotStartSec));
+  const t = easternTime(slotStartSec * 1000);
+  const hour12 = t.hour % 12 === 0 ? 12 : t.hour % 12;
+  return series.slugTemplate
+    .replace("{month}", MONTHS[t.month - 1])
+    .replace("{day}", String(t.day))
+    .replace("{hour}", `${hour12}${t.hour < 12 ? "am" : "pm"}`);
+}
+
+/**
+ * Start time encoded in a slug of this series, or null if the slug isn't one.
+ */
+export function parseSlugStart(series: MarketSeries, slug: string): number | null {
+  if (isDateTemplate(series.slugTemplate)) return parseDatedSlug(series, slug);
+  const [before, after] = series.slugTemplate.split("{start}");
+  if (!slug.startsWith(before) || !slug.endsWith(after)) return null;
+  const digits = slug.slice(before.length, slug.length - after.length);
+  return /^\d+$/.test(digits) ? parseInt(digits, 10) : null;
+}
+
+/**
+ * The series a slug belongs to: the given list first, then the presets.
+ */
+export function seriesForSlug(slug: string, list: MarketSeries[] = []): MarketSeries | null {
+  return [...list, ...SERIES_PRESETS].find((s) => parseSlugStart(s, slug) !== null) ?? null;
+}
+
+function isDateTemplate(template: string): boolean {
+  return DATE_PLACEHOLDERS.every((p) => template.includes(p));
+}
+
+/**
+ * Start time of a {month}-{day}-{hour} slug: the candidate year whose
+ * reading of the ET wall time lies closest to now.
+ */
+function parseDatedSlug(series: MarketSeries, slug: string): number | null {
+  const pattern = series.slugTemplate
+    .split(/(\{month\}|\{day\}|\{hour\})/)
+    .map((part) => part === "{month}" ? `(${MONTHS.join("|")})`
+      : part === "{day}" ? "(\\d{1,2})"
+      : part === "{hour}" ? "(\\d{1,2})(am|pm)"
+      : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("");
+  const m = new RegExp(`^${pattern}$`).exec(slug);
+  if (!m) return null;
+
+  // Capture groups follow the placeholders' order in the template
+  const order = series.slugTemplate.match(/\{month\}|\{day\}|\{hour\}/g)!;
+  let month = 0, day = 0, hour = 0, g = 1;
+  for (const p of order) {
+    if (p === "{month}") month = MONTHS.indexOf(m[g++]) + 1;
+    else if (p === "{day}") day = parseInt(m[g++], 10);
+    else {
+      const h = parseInt(m[g++], 10);
+      if (h < 1 || h > 12) return null;
+      hour = (h % 12) + (m[g++] === "pm" ? 12 : 0);
+    }
+  }
+  if (day < 1 || day > 31) return null;
+
+  const nowMs = Date.now();
+  const year = new Date(nowMs).getUTCFullYear();
+  let best: number | null = null;
+  for (const y of [year - 1, year, year + 1]) {
+    const startSec = fromEasternTime(y, month, day, hour);
+    if (startSec === null) continue;
+    if (best === null || Math.abs(startSec * 1000 - nowMs) < Math.abs(best * 1000 - nowMs)) best = startSec;
+  }
+  return best;
+}
+
+interface WallTime {
+  year: number;
+  month: number;              // 1-12
+  day: number;
+  hour: number;               // 0-23
+}
+
+const easternFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: SLUG_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+});
+
+function easternTime(ms: number): WallTime {
+  const parts = Object.fromEntries(easternFormat.formatToParts(new Date(ms)).map((p) => [p.type, p.value]));
+  return { year: +parts.year, month: +parts.month, day: +parts.day, hour: +parts.hour };
+}
+
+/**
+ * Unix seconds of an ET wall time, or null if it doesn't exist (the date is
+ * invalid, or the hour is skipped by a DST change).
+ */
+function fromEasternTime(year: number, month: number, day: number, hour: number): number | null {
+  const asUtc = Date.UTC(year, month - 1, day, hour);
+  // ET is UTC-4 or UTC-5; try both offsets and keep the one that reads back
+  for (const offsetHours of [4, 5]) {
+    const ms = asUtc + offsetHours * 3600 * 1000;
+    const t = easternTime(ms);
+    if (t.year === year && t.month === month && t.day === day && t.hour === hour) return ms / 1000;
+  }
+  return null;
+}
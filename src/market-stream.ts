@@ -0,0 +1,288 @@
+/**
+ * Streaming market data over WebSockets.
+ *
+ * Two connections:
+ *   - the Polymarket CLOB market channel, subscribed to the token IDs of the
+ *     markets the service is trading. "book" messages replace a token's book,
+ *     "price_change" messages update single levels; the result is a live
+ *     in-memory book per token (getLiveBook), used by discovery and paper
+ *     fills instead of REST while the stream is up.
+ *   - a Binance combined trade stream for every series' priceSymbol, pushed
+ *     into the price feed's cache (see price-feed).
+ *
+ * Book updates are reported to onBookUpdate so the trader service can
+ * evaluate on price events; onStatus reports the market channel going up or
+ * down so it can fall back to REST polling. Both connections reconnect with
+ * exponential backoff, and a connection that goes quiet for
+ * config.staleSec is treated as dropped. URLs are configurable, so a local WebSocket stand-in
+ * can serve both channels.
+ */
+
+import { StreamConfig } from "./config.js";
+import { pushSpotPrice } from "./price-feed.js";
+import type { ActiveMarket, BookLevel } from "./market-discovery.js";
+import type { MarketSeries } from "./market-series.js";
+import type { Logger } from "./logger.js";
+
+export interface StreamHandlers {
+  onBookUpdate(tokenId: string, seriesId: string): void;
+  onStatus(connected: boolean): void;
+}
+
+interface LiveBook {
+  bids: Map<number, number>;  // Price -> size
+  asks: Map<number, number>;
+}
+
+interface Connection {
+  name: string;
+  url: () => string;
+  onOpen: (ws: WebSocket) => void;
+  onMessage: (data: string) => void;
+  onDown: () => void;
+  ws: WebSocket | null;
+  connected: boolean;
+  attempts: number;           // Consecutive failed connects, for backoff
+  lastMessageAt: number;
+  pingTimer: ReturnType<typeof setInterval> | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const PING_INTERVAL_MS = 10_000;
+const MAX_BACKOFF_MS = 30_000;
+
+const books = new Map<string, LiveBook>();
+const watched = new Map<string, { seriesId: string; endTime: number }>(); // Token ID -> market
+let market: Connection | null = null;
+let spot: Connection | null = null;
+let marketSubscribed = false;             // Initial subscription sent on this market connection
+let handlers: StreamHandlers | null = null;
+let log: Logger | null = null;
+let staleMs = 60_000;
+
+/**
+ * Connect both streams. Tokens are added with watchMarket().
+ */
+export function startMarketStream(
+  config: StreamConfig,
+  series: MarketSeries[],
+  streamHandlers: StreamHandlers,
+  logger: Logger,
+): void {
+  if (market) return;
+  handlers = streamHandlers;
+  log = logger;
+  staleMs = config.staleSec * 1000;
+
+  market = createConnection("market", () => config.marketUrl, {
+    onOpen: (ws) => {
+      marketSubscribed = false;
+      if (watched.size > 0) subscribeAll(ws);
+    },
+    onMessage: handleMarketMessage,
+    onDown: () => books.clear(),
+  });
+
+  const symbols = Array.from(new Set(series.map((s) => s.priceSymbol.toLowerCase())));
+  spot = createConnection("spot", () => `${config.spotUrl}?streams=${symbols.map((s) => `${s}@trade`).join("/")}`, {
+    onOpen: () => {},
+    onMessage: handleSpotMessage,
+    onDown: () => {},
+  });
+
+  connect(market);
+  connect(spot);
+}
+
+/**
+ * Close both streams and drop all live books.
+ */
+export function stopMarketStream(): void {
+  for (const conn of [market, spot]) {
+    if (!conn) continue;
+    if (conn.retryTimer) clearTimeout(conn.retryTimer);
+    if (conn.pingTimer) clearInterval(conn.pingTimer);
+    conn.retryTimer = null;
+    conn.onDown = () => {};
+    conn.ws?.close();
+  }
+  market = null;
+  spot = null;
+  handlers = null;
+  books.clear();
+  watched.clear();
+}
+
+/**
+ * Subscribe to a market's tokens (no-op if already watched), and drop
+ * markets that have ended.
+ */
+export function watchMarket(m: ActiveMarket): void {
+  const nowSec = Math.floor(Date.now() / 1000);
+  const ended = Array.from(watched).filter(([, w]) => w.endTime < nowSec).map(([tokenId]) => tokenId);
+  const added = m.outcomes.map((o) => o.tokenId).filter((id) => !watched.has(id));
+
+  for (const tokenId of ended) {
+    watched.delete(tokenId);
+    books.delete(tokenId);
+  }
+  for (const tokenId of added) watched.set(tokenId, { seriesId: m.series.id, endTime: m.endTime });
+
+  const ws = market?.connected ? market.ws : null;
+  if (!ws) return;
+  if (!marketSubscribed) {
+    if (watched.size > 0) subscribeAll(ws);
+    return;
+  }
+  if (ended.length > 0) ws.send(JSON.stringify({ assets_ids: ended, operation: "unsubscribe" }));
+  if (added.length > 0) ws.send(JSON.stringify({ assets_ids: added, operation: "subscribe" }));
+}
+
+function subscribeAll(ws: WebSocket): void {
+  ws.send(JSON.stringify({ type: "market", assets_ids: Array.from(watched.keys()) }));
+  marketSubscribed = true;
+}
+
+/**
+ * The streamed book for a token (best first), or null if the market channel
+ * is down or hasn't sent a snapshot for it yet.
+ */
+export function getLiveBook(tokenId: string): { bids: BookLevel[]; asks: BookLevel[] } | null {
+  if (!market?.connected) return null;
+  const book = books.get(tokenId);
+  if (!book) return null;
+  return {
+    bids: Array.from(book.bids).sort((a, b) => b[0] - a[0]),
+    asks: Array.from(book.asks).sort((a, b) => a[0] - b[0]),
+  };
+}
+
+/**
+ * Check if the market channel is connected.
+ */
+export function isMarketStreamConnected(): boolean {
+  return market?.connected ?? false;
+}
+
+function handleMarketMessage(data: string): void {
+  if (data === "PONG") return;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return;
+  }
+
+  for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+    if (msg?.event_type === "book") {
+      const book: LiveBook = { bids: new Map(), asks: new Map() };
+      for (const l of msg.bids ?? msg.buys ?? []) setLevel(book.bids, l.price, l.size);
+      for (const l of msg.asks ?? msg.sells ?? []) setLevel(book.asks, l.price, l.size);
+      books.set(msg.asset_id, book);
+      notifyUpdate(msg.asset_id);
+    } else if (msg?.event_type === "price_change") {
+      // Current format: price_changes[] each with its asset_id; older: asset_id + changes[]
+      const changes: any[] = msg.price_changes ?? (msg.changes ?? []).map((c: any) => ({ ...c, asset_id: msg.asset_id }));
+      const updated = new Set<string>();
+      for (const c of changes) {
+        const book = books.get(c.asset_id);
+        if (!book) continue;
+        setLevel(c.side === "BUY" ? book.bids : book.asks, c.price, c.size);
+        updated.add(c.asset_id);
+      }
+      for (const tokenId of updated) notifyUpdate(tokenId);
+    }
+  }
+}
+
+function handleSpotMessage(data: string): void {
+  try {
+    const msg = JSON.parse(data);
+    const trade = msg.data ?? msg;
+    const price = parseFloat(trade.p);
+    if (trade.e === "trade" && trade.s && price > 0) pushSpotPrice(trade.s, price);
+  } catch {}
+}
+
+function setLevel(levels: Map<number, number>, rawPrice: string, rawSize: string): void {
+  const price = parseFloat(rawPrice);
+  const size = parseFloat(rawSize);
+  if (!(price > 0)) return;
+  if (size > 0) levels.set(price, size);
+  else levels.delete(price);
+}
+
+function notifyUpdate(tokenId: string): void {
+  const w = watched.get(tokenId);
+  if (w) handlers?.onBookUpdate(tokenId, w.seriesId);
+}
+
+function createConnection(
+  name: string,
+  url: () => string,
+  callbacks: Pick<Connection, "onOpen" | "onMessage" | "onDown">,
+): Connection {
+  return { name, url, ...callbacks, ws: null, connected: false, attempts: 0, lastMessageAt: 0, pingTimer: null, retryTimer: null };
+}
+
+function connect(conn: Connection): void {
+  conn.retryTimer = null;
+  let ws: WebSocket;
+  try {
+    ws = new WebSocket(conn.url());
+  } catch (err: any) {
+    log?.warn(`${conn.name} stream failed to connect: ${err.message || err}`);
+    scheduleReconnect(conn);
+    return;
+  }
+  conn.ws = ws;
+
+  ws.onopen = () => {
+    conn.connected = true;
+    conn.attempts = 0;
+    conn.lastMessageAt = Date.now();
+    log?.info(`${conn.name} stream connected`);
+    conn.onOpen(ws);
+    if (conn === market) handlers?.onStatus(true);
+
+    // Check for silence at least twice per stale window
+    conn.pingTimer = setInterval(() => {
+      if (Date.now() - conn.lastMessageAt > staleMs) {
+        log?.warn(`${conn.name} stream silent for ${staleMs / 1000}s — reconnecting`);
+        ws.close();
+        return;
+      }
+      if (conn === market) ws.send("PING");
+    }, Math.min(PING_INTERVAL_MS, staleMs / 2));
+  };
+
+  ws.onmessage = (event) => {
+    conn.lastMessageAt = Date.now();
+    conn.onMessage(typeof event.data === "string" ? event.data : String(event.data));
+  };
+
+  ws.onerror = () => {
+    // onclose follows and handles the reconnect
+  };
+
+  ws.onclose = () => {
+    if (conn.ws !== ws) return;
+    const wasConnected = conn.connected;
+    conn.connected = false;
+    conn.ws = null;
+    if (conn.pingTimer) clearInterval(conn.pingTimer);
+    conn.pingTimer = null;
+    conn.onDown();
+    if (wasConnected) {
+      log?.warn(`${conn.name} stream disconnected`);
+      if (conn === market) handlers?.onStatus(false);
+    }
+    if (conn === market || conn === spot) scheduleReconnect(conn);
+  };
+}
+
+function scheduleReconnect(conn: Connection): void {
+  const delay = Math.min(MAX_BACKOFF_MS, 1000 * 2 ** conn.attempts);
+  conn.attempts++;
+  conn.retryTimer = setTimeout(() => connect(conn), delay);
+}
@@ -0,0 +1,191 @@
+/**
+ * Prometheus metrics: an in-process registry and a /metrics exporter.
+ *
+ * Counters and histograms are updated where things happen (trader-service,
+ * executor, redeemer, API call sites via timeCall), and the balance and
+ * exposure gauges on each tick. Gauges whose value is already held elsewhere
+ * (killswitch, time since last tick/sweep) are read when /metrics is scraped;
+ * a scrape never touches trading state or the trade log.
+ *
+ * The exporter is read-only and unauthenticated; bind it to 127.0.0.1
+ * unless the scraper runs on another host.
+ */
+
+import { createServer, Server } from "http";
+import { MetricsConfig } from "./config.js";
+import { getGuardrailState } from "./guardrails.js";
+import type { Logger } from "./logger.js";
+
+type Labels = Record<string, string>;
+
+export type ApiName = "gamma" | "clob" | "rpc";
+
+const PREFIX = "polybot_";
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+  type: "counter" | "gauge" | "histogram";
+  help: string;
+  values: Map<string, number>;                // Serialized labels -> value (counter/gauge)
+  histograms: Map<string, { buckets: number[]; sum: number; count: number }>;
+}
+
+const registry = new Map<string, Metric>();
+
+let lastTickAt: number | null = null;         // Unix ms of the last tick without an error
+let lastSweepAt: number | null = null;        // Unix ms of the last completed redemption sweep
+let server: Server | null = null;
+
+function define(name: string, type: Metric["type"], help: string): void {
+  registry.set(name, { type, help, values: new Map(), histograms: new Map() });
+}
+
+define("ticks_total", "counter", "Strategy ticks run");
+define("tick_errors_total", "counter", "Ticks that ended in an error");
+define("signals_total", "counter", "Strategy signals by type");
+define("order_attempts_total", "counter", "Orders submitted (live or paper)");
+define("orders_total", "counter", "Order results by side and result (success/failure)");
+define("redemption_txs_total", "counter", "Redemption transactions by result (confirmed/reverted/unconfirmed/failed)");
+define("usdc_balance", "gauge", "USDC balance seen on the last tick (paper balance in dry-run)");
+define("open_exposure_usdc", "gauge", "USDC cost basis across unresolved positions, as of the last tick");
+define("killswitch", "gauge", "1 if the killswitch is active");
+define("seconds_since_last_tick", "gauge", "Seconds since the last tick that completed without an error");
+define("seconds_since_last_sweep", "gauge", "Seconds since the last completed redemption sweep");
+define("api_latency_seconds", "histogram", "Latency of Gamma, CLOB and Polygon RPC calls");
+
+function labelKey(labels: Labels): string {
+  const parts = Object.keys(labels).sort().map((k) => `${k}="${labels[k].replace(/["\\\n]/g, "_")}"`);
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+/**
+ * Add to a counter.
+ */
+export function incCounter(name: string, labels: Labels = {}, by = 1): void {
+  const metric = registry.get(name);
+  if (!metric || metric.type !== "counter") return;
+  const key = labelKey(labels);
+  metric.values.set(key, (metric.values.get(key) ?? 0) + by);
+}
+
+/**
+ * Set a gauge.
+ */
+export function setGauge(name: string, value: number, labels: Labels = {}): void {
+  const metric = registry.get(name);
+  if (!metric || metric.type !== "gauge") return;
+  metric.values.set(labelKey(labels), value);
+}
+
+/**
+ * Record one histogram observation.
+ */
+export function observe(name: string, value: number, labels: Labels = {}): void {
+  const metric = registry.get(name);
+  if (!metric || metric.type !== "histogram") return;
+  const key = labelKey(labels);
+  const h = metric.histograms.get(key) ?? { buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+  LATENCY_BUCKETS.forEach((le, i) => {
+    if (value <= le) h.buckets[i]++;
+  });
+  h.sum += value;
+  h.count++;
+  metric.histograms.set(key, h);
+}
+
+/**
+ * Run an external API call and record its latency, whether it succeeds or throws.
+ */
+export async function timeCall<T>(api: ApiName, op: string, fn: () => Promise<T>): Promise<T> {
+  const start = performance.now();
+  try {
+    return await fn();
+  } finally {
+    observe("api_latency_seconds", (performance.now() - start) / 1000, { api, op });
+  }
+}
+
+/**
+ * Mark a tick that completed without an error.
+ */
+export function markTickSuccess(): void {
+  lastTickAt = Date.now();
+}
+
+/**
+ * Mark a completed redemption sweep.
+ */
+export function markSweepComplete(): void {
+  lastSweepAt = Date.now();
+}
+
+/**
+ * Render every metric in Prometheus text exposition format.
+ */
+export function renderMetrics(): string {
+  setGauge("killswitch", getGuardrailState().killswitch ? 1 : 0);
+  if (lastTickAt !== null) setGauge("seconds_since_last_tick", (Date.now() - lastTickAt) / 1000);
+  if (lastSweepAt !== null) setGauge("seconds_since_last_sweep", (Date.now() - lastSweepAt) / 1000);
+
+  const lines: string[] = [];
+  for (const [name, metric] of registry) {
+    const full = PREFIX + name;
+    lines.push(`# HELP ${full} ${metric.help}`);
+    lines.push(`# TYPE ${full} ${metric.type}`);
+
+    if (metric.type !== "histogram") {
+      for (const [key, value] of metric.values) lines.push(`${full}${key} ${value}`);
+      continue;
+    }
+
+    for (const [key, h] of metric.histograms) {
+      const inner = key.slice(1, -1);
+      const withLe = (le: string) => `{${inner ? inner + "," : ""}le="${le}"}`;
+      LATENCY_BUCKETS.forEach((le, i) => lines.push(`${full}_bucket${withLe(String(le))} ${h.buckets[i]}`));
+      lines.push(`${full}_bucket${withLe("+Inf")} ${h.count}`);
+      lines.push(`${full}_sum${key} ${h.sum}`);
+      lines.push(`${full}_count${key} ${h.count}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Start the /metrics exporter.
+ */
+export function startMetricsServer(config: MetricsConfig, logger: Logger): void {
+  if (server) return;
+
+  server = createServer((req, res) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    if (req.method !== "GET" || path !== "/metrics") {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found\n");
+      return;
+    }
+    try {
+      const body = renderMetrics();
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+      res.end(body);
+    } catch (err: any) {
+      res.writeHead(500, { "Content-Type": "text/plain" });
+      res.end(`${err.message || err}\n`);
+    }
+  });
+  server.on("error", (err: any) => {
+    logger.error(`Server error: ${err.message || err}`);
+  });
+  server.listen(config.port, config.host, () => {
+    logger.info(`Prometheus metrics on http://${config.host}:${config.port}/metrics`);
+  });
+}
+
+/**
+ * Stop the /metrics exporter.
+ */
+export function stopMetricsServer(): void {
+  if (server) {
+    server.close();
+    server = null;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Alerting: sends important events (fills, killswitch, redemptions, repeated
+ * errors, a daily summary) to external sinks — generic webhook, Telegram,
+ * Discord or Slack-compatible incoming webhooks.
+ *
+ * notify() is fire-and-forget and a no-op until startNotifier() has been
+ * called, so backtests and scripts never send anything. Each sink can be
+ * limited to some event types; every sink is rate limited (excess messages
+ * are dropped and counted in the next one that goes out) and repeats of the
+ * same event within dedupWindowSec are suppressed.
+ *
+ * All sink URLs are configurable (Telegram via apiBase), so everything can be
+ * pointed at a local HTTP stand-in for testing.
+ */
+
+import { NotifierConfig, SinkConfig } from "./config.js";
+import { readTradeLog } from "./trade-log.js";
+import { buildTradeResults, summarizeResults } from "./performance.js";
+import { now } from "./clock.js";
+import { Logger, silentLogger } from "./logger.js";
+
+export type EventType = "fill" | "killswitch" | "redemption" | "error" | "summary";
+
+export interface Notification {
+  type: EventType;
+  title: string;
+  message: string;
+  time: string;               // ISO timestamp
+}
+
+interface Sink {
+  config: SinkConfig;
+  sentTimes: number[];        // Unix ms of messages sent in the last minute
+  suppressed: number;         // Dropped by the rate limit since the last send
+}
+
+const ONE_MINUTE_MS = 60 * 1000;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+let sinks: Sink[] = [];
+let settings: NotifierConfig | null = null;
+let log: Logger = silentLogger;
+let summaryTimer: ReturnType<typeof setInterval> | null = null;
+let lastSummaryDay: number | null = null;
+const recent = new Map<string, number>(); // Dedup key -> Unix ms last sent
+
+/**
+ * Start sending notifications to the configured sinks, plus the daily
+ * summary timer if enabled.
+ */
+export function startNotifier(config: NotifierConfig, logger: Logger): void {
+  settings = config;
+  log = logger;
+  sinks = config.sinks.map((s) => ({ config: s, sentTimes: [], suppressed: 0 }));
+  logger.info(`${sinks.length} sink(s): ${sinks.map((s) => s.config.type).join(", ") || "none"}`);
+
+  if (config.dailySummaryHourUtc !== null && !summaryTimer) {
+    // Don't send yesterday's summary just because we started after the hour
+    lastSummaryDay = startOfUtcDay(now());
+    summaryTimer = setInterval(() => checkDailySummary(), ONE_MINUTE_MS);
+  }
+}
+
+/**
+ * Stop the daily summary timer and drop all sinks.
+ */
+export function stopNotifier(): void {
+  if (summaryTimer) {
+    clearInterval(summaryTimer);
+    summaryTimer = null;
+  }
+  sinks = [];
+  settings = null;
+}
+
+/**
+ * Queue a notification to every sink routed for this event type.
+ * `key` identifies repeats for deduplication (defaults to title + message).
+ */
+export function notify(type: EventType, title: string, message: string, key?: string): void {
+  if (!settings || sinks.length === 0) return;
+
+  const nowMs = now();
+  const dedupKey = `${type}:${key ?? title + message}`;
+  const last = recent.get(dedupKey);
+  if (last !== undefined && nowMs - last < settings.dedupWindowSec * 1000) return;
+  recent.set(dedupKey, nowMs);
+  for (const [k, t] of recent) {
+    if (nowMs - t >= settings.dedupWindowSec * 1000) recent.delete(k);
+  }
+
+  const notification: Notification = { type, title, message, time: new Date(nowMs).toISOString() };
+  for (const sink of sinks) {
+    if (sink.config.events && !sink.config.events.includes(type)) continue;
+    deliver(sink, notification, nowMs);
+  }
+}
+
+/**
+ * Send one notification to every sink regardless of routing, rate limits
+ * and dedup, and wait for the results. Used by the notify test command.
+ */
+export async function sendTestNotification(config: NotifierConfig, message: string): Promise<{ sink: string; error?: string }[]> {
+  const notification: Notification = { type: "summary", title: "Test notification", message, time: new Date(now()).toISOString() };
+  const results: { sink: string; error?: string }[] = [];
+  for (const s of config.sinks) {
+    try {
+      await post(s, notification, 0);
+      results.push({ sink: s.type });
+    } catch (err: any) {
+      results.push({ sink: s.type, error: err.message || String(err) });
+    }
+  }
+  return results;
+}
+
+function deliver(sink: Sink, notification: Notification, nowMs: number): void {
+  sink.sentTimes = sink.sentTimes.filter((t) => nowMs - t < ONE_MINUTE_MS);
+  if (sink.sentTimes.length >= settings!.rateLimitPerMinute) {
+    sink.suppressed++;
+    return;
+  }
+  sink.sentTimes.push(nowMs);
+
+  const suppressed = sink.suppressed;
+  sink.suppressed = 0;
+  post(sink.config, notification, suppressed).catch((err: any) => {
+    log.warn(`${sink.config.type} sink failed: ${err.message || err}`, { event: notification.type });
+  });
+}
+
+/**
+ * Format and POST a notification in the sink's payload format.
+ */
+async function post(sink: SinkConfig, n: Notification, suppressed: number): Promise<void> {
+  const note = suppressed > 0 ? `\n(${suppressed} earlier message(s) dropped by rate limit)` : "";
+  const text = `${n.title}\n${n.message}${note}`;
+
+  let url: string;
+  let body: unknown;
+  switch (sink.type) {
+    case "webhook":
+      url = sink.url ?? "";
+      body = { ...n, suppressed };
+      break;
+    case "telegram":
+      url = `${sink.apiBase ?? "https://api.telegram.org"}/bot${sink.botToken ?? ""}/sendMessage`;
+      body = { chat_id: sink.chatId, text, disable_web_page_preview: true };
+      break;
+    case "discord":
+      url = sink.url ?? "";
+      body = { content: text.slice(0, 2000) };
+      break;
+    case "slack":
+      url = sink.url ?? "";
+      body = { text };
+      break;
+    default:
+      throw new Error(`Unknown sink type: ${(sink as SinkConfig).type}`);
+  }
+  if (!url) throw new Error(`${sink.type} sink has no url`);
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10_000),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+/**
+ * Once a day at dailySummaryHourUtc, summarize the previous UTC day's trades.
+ */
+function checkDailySummary(): void {
+  if (!settings || settings.dailySummaryHourUtc === null) return;
+  const nowMs = now();
+  const today = startOfUtcDay(nowMs);
+  if (lastSummaryDay === today || new Date(nowMs).getUTCHours() < settings.dailySummaryHourUtc) return;
+  lastSummaryDay = today;
+
+  const from = today - ONE_DAY_MS;
+  const results = buildTradeResults(readTradeLog()).filter((r) => r.entryTime >= from && r.entryTime < today);
+  const s = summarizeResults(results);
+  const day = new Date(from).toISOString().slice(0, 10);
+  const pnl = `${s.pnl < 0 ? "-" : "+"}$${Math.abs(s.pnl).toFixed(2)}`;
+  notify(
+    "summary",
+    `Daily summary ${day}`,
+    `${s.trades} closed trade(s), ${s.wins} won (${(s.winRate * 100).toFixed(1)}%), PnL ${pnl}, max drawdown $${s.maxDrawdown.toFixed(2)}, ${s.open} open`,
+  );
+}
+
+function startOfUtcDay(nowMs: number): number {
+  const d = new Date(nowMs);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
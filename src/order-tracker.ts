@@ -0,0 +1,276 @@
+/**
+ * Fill tracking for live orders.
+ *
+ * The CLOB accepts a GTC order as "live" before anything has matched, so the
+ * executor records the requested size up front and hands the order here.
+ * Every tick, pollOrders() fetches each tracked order by ID. Once an order is
+ * done — fully matched, cancelled by the exchange, timed out, or about to
+ * outlive its market — any unfilled remainder is cancelled and the
+ * PositionRecord and trade log are corrected to what actually filled. An
+ * order the CLOB returns without a status it recognizes (not yet indexed, or
+ * a blip) is polled again next tick, the same as a failed fetch.
+ *
+ * The PositionRecord is corrected even when the order filled in full, since
+ * a marketable order can fill at a better average price than its limit. A
+ * SELL leaves the position open until then, and only reduces it by what
+ * actually sold.
+ *
+ * Tracked orders are snapshotted to tracked-orders.json on every change and
+ * reloaded when live trading starts (see loadTrackedOrders), so an order
+ * resting across a restart is still polled and settled.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import type { OpenOrder } from "@polymarket/clob-client";
+import { getClient, isClientReady } from "./client.js";
+import { TraderConfig } from "./config.js";
+import { PositionRecord, updatePosition, closePosition, getGuardrailState } from "./guardrails.js";
+import { logFill } from "./trade-log.js";
+import { timeCall } from "./metrics.js";
+import { notify } from "./notifier.js";
+import type { Logger } from "./logger.js";
+
+export interface TrackedOrder {
+  orderId: string;
+  side: "BUY" | "SELL";
+  conditionId: string;
+  slug: string;
+  requestedSize: number;
+  limitPrice: number;
+  placedAt: number;           // Unix ms
+  marketEndTime: number;      // Unix seconds
+  position: PositionRecord;   // As recorded at placement (BUY) or being exited (SELL)
+}
+
+interface TrackedOrdersSnapshot {
+  savedAt: string;
+  orders: TrackedOrder[];
+}
+
+// Statuses after which an order can no longer match, and those of an order
+// still resting on (or being processed by) the book
+const TERMINAL_STATUSES = new Set(["matched", "canceled", "cancelled", "canceled_market_resolved", "invalid"]);
+const WORKING_STATUSES = new Set(["live", "delayed", "unmatched"]);
+
+let stateFile: string | null = "./tracked-orders.json";
+const tracked = new Map<string, TrackedOrder>();
+
+/**
+ * Change where tracked orders are persisted; null disables persistence.
+ * Returns the previous setting.
+ */
+export function setTrackedOrdersFile(path: string | null): string | null {
+  const previous = stateFile;
+  stateFile = path;
+  return previous;
+}
+
+/**
+ * Restore tracked orders from the on-disk snapshot, replacing any in memory.
+ * Call when live trading starts, before the first poll.
+ */
+export function loadTrackedOrders(logger: Logger): void {
+  tracked.clear();
+  if (!stateFile || !existsSync(stateFile)) return;
+  try {
+    const snap: TrackedOrdersSnapshot = JSON.parse(readFileSync(stateFile, "utf-8"));
+    for (const order of snap.orders || []) tracked.set(order.orderId, order);
+  } catch (err: any) {
+    logger.warn(`Failed to read ${stateFile}: ${err.message} — orders placed before the restart won't be settled`);
+    return;
+  }
+  if (tracked.size > 0) {
+    logger.info(`Resumed tracking ${tracked.size} working order(s) from ${stateFile}`, { file: stateFile });
+  }
+}
+
+/**
+ * Start tracking a freshly posted live order.
+ */
+export function trackOrder(order: TrackedOrder): void {
+  tracked.set(order.orderId, order);
+  saveState();
+}
+
+/**
+ * Check if an order on this side is still working for a market.
+ */
+export function hasOpenOrder(conditionId: string, side: "BUY" | "SELL"): boolean {
+  for (const order of tracked.values()) {
+    if (order.conditionId === conditionId && order.side === side) return true;
+  }
+  return false;
+}
+
+/**
+ * All orders currently being tracked.
+ */
+export function getTrackedOrders(): TrackedOrder[] {
+  return Array.from(tracked.values());
+}
+
+/**
+ * Poll every tracked order once, cancel stale remainders and settle
+ * finished orders. Called from each service tick.
+ */
+export async function pollOrders(config: TraderConfig, logger: Logger): Promise<void> {
+  if (tracked.size === 0 || !isClientReady()) return;
+
+  const client = getClient();
+  const nowMs = Date.now();
+
+  for (const order of Array.from(tracked.values())) {
+    let open: OpenOrder;
+    try {
+      open = await timeCall("clob", "getOrder", () => client.getOrder(order.orderId));
+    } catch (err: any) {
+      logger.warn(`Failed to fetch ${order.orderId}: ${err.message || err}`, { orderId: order.orderId, slug: order.slug });
+      continue;
+    }
+
+    const status = normalizeStatus(open?.status);
+    if (!TERMINAL_STATUSES.has(status) && !WORKING_STATUSES.has(status)) {
+      const got = open ? (status ? `unknown status "${status}"` : "no status") : "nothing";
+      logger.warn(`Order ${order.orderId} returned ${got} — checking again next tick`, { orderId: order.orderId, slug: order.slug });
+      continue;
+    }
+
+    let filled = parseFloat(open.size_matched) || 0;
+    let note = status;
+    let done = TERMINAL_STATUSES.has(status) || filled >= order.requestedSize;
+
+    if (!done) {
+      const timedOut = nowMs - order.placedAt >= config.orderFillTimeoutSec * 1000;
+      const nearEnd = nowMs / 1000 >= order.marketEndTime - config.cancelBeforeEndSec;
+      if (!timedOut && !nearEnd) continue;
+
+      try {
+        await timeCall("clob", "cancelOrder", () => client.cancelOrder({ orderID: order.orderId }));
+      } catch (err: any) {
+        logger.warn(`Failed to cancel ${order.orderId}: ${err.message || err}`, { orderId: order.orderId, slug: order.slug });
+        continue;
+      }
+      note = timedOut
+        ? `cancelled after ${config.orderFillTimeoutSec}s timeout`
+        : `cancelled ${config.cancelBeforeEndSec}s before market end`;
+      done = true;
+
+      // Re-read: something may have matched between the poll and the cancel
+      try {
+        const latest = await timeCall("clob", "getOrder", () => client.getOrder(order.orderId));
+        if (latest) {
+          open = latest;
+          filled = parseFloat(latest.size_matched) || filled;
+        }
+      } catch {}
+    }
+
+    tracked.delete(order.orderId);
+    saveState();
+    const avgPrice = filled > 0 ? await getAverageFillPrice(order, open) : order.limitPrice;
+    settle(order, Math.min(filled, order.requestedSize), avgPrice, note, logger);
+  }
+}
+
+/**
+ * Lower-case an order status, dropping the ORDER_STATUS_ prefix some
+ * endpoints use ("" if missing).
+ */
+function normalizeStatus(status: string | undefined): string {
+  return (status || "").toLowerCase().replace(/^order_status_/, "");
+}
+
+/**
+ * Correct guardrails and the trade log for a finished order.
+ */
+function settle(order: TrackedOrder, filled: number, avgPrice: number, note: string, logger: Logger): void {
+  const status = filled >= order.requestedSize ? "filled" : filled > 0 ? "partial" : "unfilled";
+
+  logFill({
+    slug: order.slug,
+    orderId: order.orderId,
+    side: order.side === "BUY" ? "buy" : "sell",
+    requestedSize: order.requestedSize,
+    filledSize: filled,
+    avgPrice,
+    status,
+    note,
+  });
+
+  const msg = `[ORDER] ${order.side} ${order.orderId} on ${order.slug}: ${status} ${filled}/${order.requestedSize} @ $${avgPrice.toFixed(3)} (${note})`;
+  logger.info(msg, { orderId: order.orderId, slug: order.slug, side: order.side, status, filled, requested: order.requestedSize, avgPrice });
+  notify("fill", `${order.side} ${status.toUpperCase()} ${order.slug}`, msg);
+
+  if (order.side === "BUY") {
+    if (filled <= 0) {
+      closePosition(order.conditionId);
+    } else {
+      updatePosition({ ...order.position, size: filled, entryPrice: avgPrice, costBasis: filled * avgPrice });
+    }
+    return;
+  }
+
+  // SELL: the position stayed open while the order worked; take off what sold
+  // (unless the market has resolved and the position was dropped meanwhile)
+  const held = getGuardrailState().openPositions.get(order.conditionId);
+  if (!held || filled <= 0) return;
+  const remaining = held.size - filled;
+  if (remaining > 0) {
+    updatePosition({ ...held, size: remaining, costBasis: held.costBasis * (remaining / held.size) });
+  } else {
+    closePosition(order.conditionId);
+  }
+}
+
+/**
+ * Write tracked orders to disk (temp file + rename, as guardrails does).
+ */
+function saveState(): void {
+  if (!stateFile) return;
+  const snap: TrackedOrdersSnapshot = {
+    savedAt: new Date().toISOString(),
+    orders: Array.from(tracked.values()),
+  };
+  try {
+    writeFileSync(stateFile + ".tmp", JSON.stringify(snap, null, 2));
+    renameSync(stateFile + ".tmp", stateFile);
+  } catch {}
+}
+
+/**
+ * Size-weighted average price of this order's matches. As taker the trade
+ * price is ours; as maker, our share is in the matching maker_orders entry.
+ * Falls back to the limit price if the trades can't be fetched.
+ */
+async function getAverageFillPrice(order: TrackedOrder, open: OpenOrder): Promise<number> {
+  const tradeIds = open?.associate_trades || [];
+  if (tradeIds.length === 0) return order.limitPrice;
+
+  const client = getClient();
+  let totalSize = 0;
+  let totalValue = 0;
+
+  try {
+    for (const id of tradeIds) {
+      const trades = await timeCall("clob", "getTrades", () => client.getTrades({ id }, true));
+      for (const t of trades) {
+        if (t.taker_order_id === order.orderId) {
+          const size = parseFloat(t.size) || 0;
+          totalSize += size;
+          totalValue += size * (parseFloat(t.price) || 0);
+          continue;
+        }
+        for (const m of t.maker_orders || []) {
+          if (m.order_id !== order.orderId) continue;
+          const size = parseFloat(m.matched_amount) || 0;
+          totalSize += size;
+          totalValue += size * (parseFloat(m.price) || 0);
+        }
+      }
+    }
+  } catch {
+    return order.limitPrice;
+  }
+
+  return totalSize > 0 ? totalValue / totalSize : order.limitPrice;
+}
@@ -0,0 +1,164 @@
+/**
+ * Paper trading: realistic simulated fills for dry-run mode.
+ *
+ * Instead of assuming an instant full fill at the midpoint, a paper order
+ * walks the real order book — a BUY lifts asks from the best ask upward, a
+ * SELL hits bids from the best bid downward — stopping at the signal price
+ * plus/minus maxSlippage (GTC), or at the limit price itself for marketable
+ * FOK/FAK orders, which are already priced past the book. Thin books give
+ * partial fills; whatever doesn't fill is dropped, like a fill-and-kill
+ * order. A FOK order fills completely or not at all.
+ *
+ * Paper trades are written to a separate ledger (paper.ledgerFile, same
+ * format as trades.jsonl) with their own guardrail state file, so dry-run
+ * history never mixes with live history. A virtual USDC balance is derived
+ * from the ledger: starting balance, minus buys, plus sells and resolution
+ * payouts. settlePaperPositions() logs resolutions for ended markets so
+ * positions settle without waiting for the redeemer.
+ */
+
+import { getClient, isClientReady } from "./client.js";
+import { timeCall } from "./metrics.js";
+import { PaperConfig, TimeInForce } from "./config.js";
+import { MarketSeries, parseSlugStart, seriesForSlug } from "./market-series.js";
+import { now } from "./clock.js";
+import { BookLevel, fetchMarketBySlug, toBookLevels } from "./market-discovery.js";
+import { getLiveBook } from "./market-stream.js";
+import { getWinner } from "./redeemer.js";
+import { readTradeLog, logResolution } from "./trade-log.js";
+import { buildTradeResults } from "./performance.js";
+import type { Logger } from "./logger.js";
+
+export interface PaperBook {
+  bids: BookLevel[];          // Best first
+  asks: BookLevel[];          // Best first
+}
+
+export interface PaperOrder {
+  tokenId: string;
+  side: "BUY" | "SELL";
+  size: number;               // Shares requested
+  price: number;              // Signal price
+  orderType?: TimeInForce;    // Default GTC
+}
+
+export interface PaperFill {
+  orderId: string;
+  filledSize: number;
+  avgPrice: number;
+  amount: number;             // USDC paid (BUY) or received (SELL)
+  reason?: string;            // Why the fill is partial or empty
+}
+
+type BookSource = (tokenId: string) => Promise<PaperBook | null>;
+
+const SETTLE_INTERVAL_MS = 60_000;
+
+let bookSource: BookSource = fetchClobBook;
+let orderSeq = 0;
+let lastSettle = 0;
+
+/**
+ * Replace where order books come from (the backtester serves recorded books).
+ * Pass null to go back to the live CLOB.
+ */
+export function setBookSource(source: BookSource | null): void {
+  bookSource = source ?? fetchClobBook;
+}
+
+/**
+ * Simulate an order against the current book. Never throws.
+ */
+export async function simulateFill(order: PaperOrder, paper: PaperConfig): Promise<PaperFill> {
+  const orderId = `paper-${now()}-${++orderSeq}`;
+  const empty = (reason: string): PaperFill => ({ orderId, filledSize: 0, avgPrice: order.price, amount: 0, reason });
+
+  let book: PaperBook | null;
+  try {
+    book = await bookSource(order.tokenId);
+  } catch {
+    book = null;
+  }
+  if (!book) return empty("order book unavailable");
+
+  const buying = order.side === "BUY";
+  const levels = buying ? book.asks : book.bids;
+  const slippage = (order.orderType ?? "GTC") === "GTC" ? paper.maxSlippage : 0;
+  const limit = buying ? order.price + slippage : order.price - slippage;
+  const budget = buying ? getPaperBalance(paper) : Infinity;
+
+  let filled = 0;
+  let amount = 0;
+  let reason: string | undefined;
+
+  for (const [price, size] of levels) {
+    if (buying ? price > limit + 1e-9 : price < limit - 1e-9) {
+      reason = `book beyond $${limit.toFixed(3)} slippage limit`;
+      break;
+    }
+    let take = Math.min(size, order.size - filled);
+    if (buying && amount + take * price > budget) {
+      take = Math.floor((budget - amount) / price);
+      reason = `paper balance $${budget.toFixed(2)} exhausted`;
+    }
+    if (take <= 0) break;
+    filled += take;
+    amount += take * price;
+    if (filled >= order.size || reason) break;
+  }
+
+  if (filled === 0) return empty(reason ?? "no liquidity");
+  if (filled < order.size && !reason) reason = "book too thin";
+  if (filled < order.size && order.orderType === "FOK") {
+    return empty(`FOK killed — only ${filled}/${order.size} shares available (${reason})`);
+  }
+  return { orderId, filledSize: filled, avgPrice: amount / filled, amount, reason };
+}
+
+/**
+ * Virtual USDC balance from the paper ledger.
+ */
+export function getPaperBalance(paper: PaperConfig): number {
+  return buildTradeResults(readTradeLog()).reduce(
+    (bal, r) => bal - r.cost + r.proceeds + r.payout,
+    paper.startingBalance,
+  );
+}
+
+/**
+ * Log resolutions for paper positions whose market has ended, so they settle
+ * into the virtual balance. A market's end comes from its series (`series`,
+ * then the presets). Rate-limited to once a minute.
+ */
+export async function settlePaperPositions(paper: PaperConfig, series: MarketSeries[], logger: Logger): Promise<void> {
+  const nowMs = now();
+  if (nowMs - lastSettle < SETTLE_INTERVAL_MS) return;
+  lastSettle = nowMs;
+
+  const open = buildTradeResults(readTradeLog()).filter((r) => r.status === "open");
+  const nowSec = Math.floor(nowMs / 1000);
+
+  for (const slug of new Set(open.map((r) => r.slug))) {
+    const s = seriesForSlug(slug, series);
+    const startTime = s ? parseSlugStart(s, slug) : null;
+    if (!s || startTime === null || nowSec < startTime + s.durationSec) continue;
+
+    const raw = await fetchMarketBySlug(slug);
+    const winner = raw ? getWinner(raw) : null;
+    if (!winner) continue;
+
+    logResolution(slug, winner);
+    const pnl = buildTradeResults(readTradeLog())
+      .filter((r) => r.slug === slug)
+      .reduce((sum, r) => sum + r.pnl, 0);
+    logger.info(`Settled ${slug} → ${winner} (${pnl >= 0 ? "+" : "-"}$${Math.abs(pnl).toFixed(2)}) | Paper bal: $${getPaperBalance(paper).toFixed(2)}`, { slug, resolved: winner, pnl });
+  }
+}
+
+async function fetchClobBook(tokenId: string): Promise<PaperBook | null> {
+  const live = getLiveBook(tokenId);
+  if (live) return live;
+  if (!isClientReady()) return null;
+  const book = await timeCall("clob", "getOrderBook", () => getClient().getOrderBook(tokenId));
+  return { bids: toBookLevels(book.bids, "desc"), asks: toBookLevels(book.asks, "asc") };
+}
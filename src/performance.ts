@@ -0,0 +1,156 @@
+/**
+ * Per-trade results and summary statistics computed from trade log entries.
+ * Shared by the backtester and the report command.
+ */
+
+import type { TradeLogEntry } from "./trade-log.js";
+
+export interface TradeResult {
+  slug: string;
+  outcome: "Up" | "Down";
+  strategy?: string;
+  entryTime: number;          // Unix ms
+  entryPrice: number;
+  size: number;
+  cost: number;
+  proceeds: number;           // From early sells
+  payout: number;             // From resolution of shares still held
+  pnl: number;
+  status: "won" | "lost" | "sold" | "open";
+  resolved?: "Up" | "Down";
+}
+
+export interface GroupStats {
+  trades: number;
+  wins: number;
+  pnl: number;
+}
+
+export interface EquityPoint {
+  time: number;               // Entry time of the closed trade, Unix ms
+  slug: string;
+  pnl: number;                // This trade's PnL
+  equity: number;             // Cumulative PnL after this trade
+  drawdown: number;           // Distance below the running equity peak
+}
+
+export interface PerformanceSummary {
+  trades: number;             // Closed trades (sold or resolved)
+  wins: number;               // Closed trades with positive PnL
+  winRate: number;
+  pnl: number;
+  maxDrawdown: number;        // Largest peak-to-trough drop in cumulative PnL (USDC)
+  open: number;               // Trades still awaiting resolution
+  byHour: Record<number, GroupStats>;       // UTC hour of entry
+  byOutcome: Record<string, GroupStats>;    // "Up" / "Down"
+  byPriceBucket: Record<string, GroupStats>; // Entry price bucket, e.g. "0.60-0.70"
+  equity: EquityPoint[];
+}
+
+const PRICE_BUCKET_WIDTH = 0.1;
+
+/**
+ * Join each buy with its sells and resolution. Buys that never filled
+ * (size 0 after fill correction) are skipped.
+ */
+export function buildTradeResults(entries: TradeLogEntry[]): TradeResult[] {
+  const resolutions = new Map<string, "Up" | "Down">();
+  const sells = new Map<string, { size: number; proceeds: number }>();
+  for (const e of entries) {
+    if (e.type === "resolution") resolutions.set(e.slug, e.resolved);
+    if (e.type === "sell") {
+      const s = sells.get(e.slug) ?? { size: 0, proceeds: 0 };
+      sells.set(e.slug, { size: s.size + e.size, proceeds: s.proceeds + e.proceeds });
+    }
+  }
+
+  const results: TradeResult[] = [];
+  for (const e of entries) {
+    if (e.type !== "buy" || e.size <= 0) continue;
+
+    const sold = sells.get(e.slug) ?? { size: 0, proceeds: 0 };
+    const remaining = Math.max(0, e.size - sold.size);
+    const resolved = resolutions.get(e.slug);
+    const payout = resolved === e.outcome ? remaining : 0;
+
+    let status: TradeResult["status"];
+    if (remaining > 0 && !resolved) status = "open";
+    else if (remaining === 0) status = "sold";
+    else status = resolved === e.outcome ? "won" : "lost";
+
+    results.push({
+      slug: e.slug,
+      outcome: e.outcome,
+      strategy: e.strategy,
+      entryTime: Date.parse(e.time),
+      entryPrice: e.price,
+      size: e.size,
+      cost: e.cost,
+      proceeds: sold.proceeds,
+      payout,
+      pnl: status === "open" ? 0 : sold.proceeds + payout - e.cost,
+      status,
+      resolved,
+    });
+  }
+  return results;
+}
+
+/**
+ * Entry price bucket label, in steps of PRICE_BUCKET_WIDTH ("0.60-0.70").
+ */
+export function priceBucket(price: number): string {
+  const steps = Math.round(1 / PRICE_BUCKET_WIDTH);
+  const i = Math.min(steps - 1, Math.max(0, Math.floor(price * steps + 1e-9)));
+  return `${(i / steps).toFixed(2)}-${((i + 1) / steps).toFixed(2)}`;
+}
+
+/**
+ * Win rate, PnL, equity curve, max drawdown and breakdowns by hour, outcome
+ * and entry price over closed trades, in entry-time order.
+ */
+export function summarizeResults(results: TradeResult[]): PerformanceSummary {
+  const closed = results.filter((r) => r.status !== "open").sort((a, b) => a.entryTime - b.entryTime);
+
+  let pnl = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let wins = 0;
+  const byHour: Record<number, GroupStats> = {};
+  const byOutcome: Record<string, GroupStats> = {};
+  const byPriceBucket: Record<string, GroupStats> = {};
+  const equity: EquityPoint[] = [];
+
+  for (const r of closed) {
+    pnl += r.pnl;
+    peak = Math.max(peak, pnl);
+    maxDrawdown = Math.max(maxDrawdown, peak - pnl);
+    if (r.pnl > 0) wins++;
+    equity.push({ time: r.entryTime, slug: r.slug, pnl: r.pnl, equity: pnl, drawdown: peak - pnl });
+
+    addToGroup(byHour, new Date(r.entryTime).getUTCHours(), r);
+    addToGroup(byOutcome, r.outcome, r);
+    addToGroup(byPriceBucket, priceBucket(r.entryPrice), r);
+  }
+
+  return {
+    trades: closed.length,
+    wins,
+    winRate: closed.length > 0 ? wins / closed.length : 0,
+    pnl,
+    maxDrawdown,
+    open: results.length - closed.length,
+    byHour,
+    byOutcome,
+    byPriceBucket,
+    equity,
+  };
+}
+
+function addToGroup(groups: Record<string | number, GroupStats>, key: string | number, r: TradeResult): void {
+  const g = groups[key] ?? { trades: 0, wins: 0, pnl: 0 };
+  g.trades++;
+  if (r.pnl > 0) g.wins++;
+  g.pnl += r.pnl;
+  groups[key] = g;
+}
@@ -0,0 +1,158 @@
+/**
+ * Spot price feed for each market series' underlying asset.
+ * Uses multiple free exchange APIs for redundancy.
+ * No API key required for any of these.
+ */
+
+import type { MarketSeries } from "./market-series.js";
+
+/**
+ * Replacement for the live exchange APIs (backtests replay recorded prices).
+ */
+export interface PriceFeed {
+  getPrice(series: MarketSeries): Promise<number>;
+  getPriceAt(series: MarketSeries, timestampSec: number): Promise<number>;
+  estimateVol(series: MarketSeries): Promise<number>;
+}
+
+let feedOverride: PriceFeed | null = null;
+
+/**
+ * Route getSpotPrice / getSpotPriceAt / estimateShortTermVol to a custom
+ * feed, or back to the live APIs with null.
+ */
+export function setPriceFeed(feed: PriceFeed | null): void {
+  feedOverride = feed;
+}
+
+interface PriceSource {
+  name: string;
+  url: (series: MarketSeries) => string | null;
+  extract: (data: any, series: MarketSeries) => number;
+}
+
+const SOURCES: PriceSource[] = [
+  {
+    name: "Binance",
+    url: (s) => `https://api.binance.com/api/v3/ticker/price?symbol=${s.priceSymbol}`,
+    extract: (d) => parseFloat(d.price),
+  },
+  {
+    name: "CoinGecko",
+    url: (s) => (s.coingeckoId ? `https://api.coingecko.com/api/v3/simple/price?ids=${s.coingeckoId}&vs_currencies=usd` : null),
+    extract: (d, s) => d[s.coingeckoId!].usd,
+  },
+  {
+    name: "Coinbase",
+    url: (s) => `https://api.coinbase.com/v2/prices/${s.asset}-USD/spot`,
+    extract: (d) => parseFloat(d.data.amount),
+  },
+];
+
+// Binance kline intervals, shortest first
+const KLINE_INTERVALS: [name: string, seconds: number][] = [
+  ["1m", 60], ["3m", 180], ["5m", 300], ["15m", 900], ["30m", 1800],
+  ["1h", 3600], ["2h", 7200], ["4h", 14400], ["6h", 21600], ["8h", 28800], ["12h", 43200], ["1d", 86400],
+];
+
+const lastPrices = new Map<string, { price: number; time: number }>(); // priceSymbol -> last fetch
+const CACHE_TTL_MS = 5_000; // 5 second cache
+
+/**
+ * Cache a spot price pushed by a live trade stream (see market-stream), so
+ * getSpotPrice() serves it without a REST call while the stream is flowing.
+ */
+export function pushSpotPrice(priceSymbol: string, price: number): void {
+  lastPrices.set(priceSymbol.toUpperCase(), { price, time: Date.now() });
+}
+
+/**
+ * Fetch the current USD spot price of a series' asset.
+ * Tries multiple sources, returns first successful result.
+ * Caches for 5 seconds to avoid hammering APIs.
+ */
+export async function getSpotPrice(series: MarketSeries): Promise<number> {
+  if (feedOverride) return feedOverride.getPrice(series);
+  const now = Date.now();
+  const last = lastPrices.get(series.priceSymbol);
+  if (last && now - last.time < CACHE_TTL_MS) {
+    return last.price;
+  }
+
+  for (const source of SOURCES) {
+    const url = source.url(series);
+    if (!url) continue;
+    try {
+      const res = await fetch(url, {
+        headers: { "Accept": "application/json" },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!res.ok) continue;
+      const data = await res.json();
+      const price = source.extract(data, series);
+      if (price > 0) {
+        lastPrices.set(series.priceSymbol, { price, time: now });
+        return price;
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  if (last) return last.price; // stale but better than nothing
+  throw new Error(`Failed to fetch ${series.asset} price from all sources`);
+}
+
+/**
+ * Spot price at a past moment: the open of the Binance 1-minute candle
+ * starting at that second. Used to recover a market's opening price when the
+ * bot first sees the market after it started.
+ */
+export async function getSpotPriceAt(series: MarketSeries, timestampSec: number): Promise<number> {
+  if (feedOverride) return feedOverride.getPriceAt(series, timestampSec);
+  const startMs = Math.floor(timestampSec / 60) * 60_000;
+  const res = await fetch(
+    `https://api.binance.com/api/v3/klines?symbol=${series.priceSymbol}&interval=1m&startTime=${startMs}&limit=1`,
+    { signal: AbortSignal.timeout(5000) },
+  );
+  if (!res.ok) throw new Error(`Binance klines HTTP ${res.status}`);
+  const klines = await res.json();
+  const open = Array.isArray(klines) && klines.length > 0 ? parseFloat(klines[0][1]) : NaN;
+  if (!(open > 0)) throw new Error(`No ${series.priceSymbol} candle at ${new Date(startMs).toISOString()}`);
+  return open;
+}
+
+/**
+ * Simple volatility estimate: the average absolute open→close move of recent
+ * candles as long as one market (e.g. 0.005 = 0.5%). When Binance has no
+ * candle of that length, the longest shorter one is used and scaled by
+ * √(duration / candle). This is a rough heuristic, not a proper vol model.
+ */
+export async function estimateShortTermVol(series: MarketSeries): Promise<number> {
+  if (feedOverride) return feedOverride.estimateVol(series);
+  const [interval, intervalSec] = KLINE_INTERVALS.filter(([, sec]) => sec <= series.durationSec).pop() ?? KLINE_INTERVALS[0];
+  const scale = Math.sqrt(series.durationSec / intervalSec);
+  try {
+    const res = await fetch(
+      `https://api.binance.com/api/v3/klines?symbol=${series.priceSymbol}&interval=${interval}&limit=20`,
+      { signal: AbortSignal.timeout(5000) },
+    );
+    if (!res.ok) return 0.005; // fallback: 0.5%
+
+    const klines = await res.json();
+    if (!Array.isArray(klines) || klines.length < 5) return 0.005;
+
+    // Average absolute % move over the recent candles
+    let totalMove = 0;
+    for (const k of klines) {
+      const open = parseFloat(k[1]);
+      const close = parseFloat(k[4]);
+      if (open > 0) {
+        totalMove += Math.abs((close - open) / open);
+      }
+    }
+    return (totalMove / klines.length) * scale;
+  } catch {
+    return 0.005;
+  }
+}
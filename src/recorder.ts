@@ -0,0 +1,132 @@
+/**
+ * Market data recorder: writes a structured snapshot of the current market on
+ * every tick, plus each market's final resolution, to a rotating NDJSON
+ * dataset (format in dataset.ts) for research and backtest replay.
+ *
+ * Snapshots keep the top depthLevels of each outcome's order book, as
+ * fetched by discovery, and add the series' spot price. Files are named
+ * market-data-YYYY-MM-DD[.N].ndjson (UTC day) and roll over to the next
+ * suffix once they reach maxFileMB.
+ *
+ * Runs inside the trader service tick (recorder.enabled) or standalone via
+ * record.ts.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, statSync } from "fs";
+import { join } from "path";
+import { ActiveMarket, MarketOutcome, fetchMarketBySlug } from "./market-discovery.js";
+import { getSpotPrice } from "./price-feed.js";
+import { getWinner } from "./redeemer.js";
+import { DatasetRecord, MarketSnapshot } from "./dataset.js";
+import { RecorderConfig } from "./config.js";
+import type { Logger } from "./logger.js";
+
+const RESOLUTION_CHECK_INTERVAL_MS = 60_000;
+const RESOLUTION_GIVE_UP_SEC = 2 * 60 * 60;
+
+// Markets we've snapshotted and still need a resolution for: slug → endTime (Unix s)
+const pendingResolutions = new Map<string, number>();
+let lastResolutionCheck = 0;
+let currentFile: { day: string; index: number } | null = null;
+
+/**
+ * Record one snapshot of a market, then look for newly resolved markets.
+ * Never throws — recording must not disturb trading.
+ */
+export async function recordMarket(market: ActiveMarket, config: RecorderConfig, logger: Logger): Promise<void> {
+  try {
+    const snapshot = await buildSnapshot(market, config.depthLevels);
+    writeRecord(snapshot, config);
+    pendingResolutions.set(market.slug, market.endTime);
+  } catch (err: any) {
+    logger.warn(`Snapshot failed: ${err.message || err}`, { slug: market.slug });
+  }
+
+  await checkResolutions(config, logger);
+}
+
+/**
+ * Poll Gamma for markets that have ended, writing a resolution record for
+ * each one that has resolved. Rate-limited to once a minute.
+ */
+export async function checkResolutions(config: RecorderConfig, logger: Logger): Promise<void> {
+  const nowMs = Date.now();
+  if (nowMs - lastResolutionCheck < RESOLUTION_CHECK_INTERVAL_MS) return;
+  lastResolutionCheck = nowMs;
+
+  const nowSec = Math.floor(nowMs / 1000);
+  for (const [slug, endTime] of Array.from(pendingResolutions)) {
+    if (nowSec < endTime) continue;
+    if (nowSec - endTime > RESOLUTION_GIVE_UP_SEC) {
+      pendingResolutions.delete(slug);
+      logger.warn(`No resolution after ${RESOLUTION_GIVE_UP_SEC / 3600}h — giving up`, { slug });
+      continue;
+    }
+
+    const raw = await fetchMarketBySlug(slug);
+    const winner = raw ? getWinner(raw) : null;
+    if (!winner) continue;
+
+    try {
+      writeRecord({ type: "resolution", time: nowMs, slug, resolved: winner }, config);
+      pendingResolutions.delete(slug);
+      logger.info(`Resolved: ${slug} → ${winner}`, { slug, resolved: winner });
+    } catch (err: any) {
+      logger.error(`Failed to write resolution: ${err.message || err}`, { slug });
+    }
+  }
+}
+
+async function buildSnapshot(market: ActiveMarket, depthLevels: number): Promise<MarketSnapshot> {
+  const outcomes: MarketOutcome[] = market.outcomes.map((o) => ({
+    ...o,
+    bestBid: o.bestBid ?? null,
+    bestAsk: o.bestAsk ?? null,
+    bids: (o.bids ?? []).slice(0, depthLevels),
+    asks: (o.asks ?? []).slice(0, depthLevels),
+  }));
+
+  let spot: number | null = null;
+  try {
+    spot = await getSpotPrice(market.series);
+  } catch {}
+
+  return {
+    type: "snapshot",
+    time: Date.now(),
+    slug: market.slug,
+    conditionId: market.conditionId,
+    startTime: market.startTime,
+    endTime: market.endTime,
+    outcomes,
+    series: market.series.id,
+    spot,
+    tickSize: market.tickSize,
+    negRisk: market.negRisk,
+  };
+}
+
+function writeRecord(record: DatasetRecord, config: RecorderConfig): void {
+  appendFileSync(currentPath(config), JSON.stringify(record) + "\n");
+}
+
+/**
+ * Path of the file to append to, rotating by UTC day and by size.
+ */
+function currentPath(config: RecorderConfig): string {
+  mkdirSync(config.dir, { recursive: true });
+  const day = new Date().toISOString().slice(0, 10);
+  if (!currentFile || currentFile.day !== day) currentFile = { day, index: 0 };
+
+  const maxBytes = config.maxFileMB * 1024 * 1024;
+  let path = fileFor(config.dir, currentFile.day, currentFile.index);
+  while (existsSync(path) && statSync(path).size >= maxBytes) {
+    currentFile.index++;
+    path = fileFor(config.dir, currentFile.day, currentFile.index);
+  }
+  return path;
+}
+
+function fileFor(dir: string, day: string, index: number): string {
+  return join(dir, `market-data-${day}${index > 0 ? `.${index}` : ""}.ndjson`);
+}
@@ -1,31 +1,88 @@
 /**
  * On-chain token redemption for resolved Polymarket positions.
  *
- * Scans recent BTC 15-min markets for CTF tokens held by the proxy wallet,
- * then calls redeemPositions on the CTF contract through the proxy factory.
+ * Each sweep builds its work list from our own buys in trades.jsonl (any
+ * age) plus every series' markets within redeemer.lookbackHours, for
+ * positions the log doesn't know about. Resolved markets whose CTF tokens the
+ * wallet still holds (one balanceOfBatch call per chunk) are redeemed with
+ * redeemPositions, up to redeemer.batchSize conditions per transaction. The
+ * calls go out the way the wallet's signature type requires (see
+ * wallet-exec): directly from an EOA, one condition per transaction, or
+ * batched through the proxy factory or the Safe.
+ *
+ * Neg-risk markets (Gamma negRisk, or recorded on our buy) hold positions
+ * in the NegRiskAdapter's wrapped collateral, so they are redeemed through
+ * the adapter's redeemPositions with the amount held of each outcome
+ * rather than the CTF's with index sets. The adapter must be approved as an
+ * operator of the wallet's CTF tokens; until it is, neg-risk redemptions are
+ * skipped with a warning.
+ *
+ * Every condition a tx is sent for is tracked in redemption-state.json (see
+ * redemption-state): pending conditions are not re-sent but checked for a
+ * receipt on the next sweep; confirmed ones are done; reverted or dropped
+ * ones are retried up to MAX_ATTEMPTS times. Transactions are sent by
+ * tx-sender (EIP-1559 fees within config.gas, estimated gas limits, stuck
+ * txs replaced with higher fees); every version's hash is recorded, so
+ * whichever one is mined settles the conditions.
  *
  * Runs 30s after startup, then every 45 minutes.
  */
 
 import { ethers } from "ethers";
-import { GAMMA_HOST, MARKET_DURATION_SEC } from "./config.js";
-import { logResolution, hasResolution } from "./trade-log.js";
+import { TraderConfig } from "./config.js";
+import { GammaMarket, fetchMarketBySlug } from "./market-discovery.js";
+import { MarketSeries, buildMarketSlug, getSlotStart } from "./market-series.js";
+import { logResolution, hasResolution, readTradeLog, LIVE_TRADE_LOG_FILE } from "./trade-log.js";
+import {
+  RedemptionRecord,
+  cacheConditionId,
+  getCachedConditionId,
+  getRedemption,
+  getRedemptionsByStatus,
+  loadRedemptionState,
+  markRedemptionsEmpty,
+  markRedemptionsPending,
+  replaceRedemptionTx,
+  settleRedemptionTx,
+} from "./redemption-state.js";
+import { WalletCall, connectSigner, executeCalls, holderAddress, maxCallsPerTx } from "./wallet-exec.js";
+import { incCounter, markSweepComplete, timeCall } from "./metrics.js";
+import { notify } from "./notifier.js";
+import type { Logger } from "./logger.js";
 
 // Polygon contract addresses
-const PROXY_WALLET_FACTORY = "0xaB45c5A4B0c941a2F231C04C3f49182e1A254052";
 const CTF_ADDRESS = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
 const USDC_ADDRESS = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
-
-const PROXY_FACTORY_ABI = [
-  "function proxy(tuple(address to, string typeCode, bytes data, string value)[] calls) external",
-];
+const NEG_RISK_ADAPTER = "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296";
 
 const CTF_ABI = [
   "function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)",
   "function balanceOf(address owner, uint256 id) view returns (uint256)",
+  "function balanceOfBatch(address[] owners, uint256[] ids) view returns (uint256[])",
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
 ];
 
-type Logger = (...args: any[]) => void;
+const NEG_RISK_ADAPTER_ABI = [
+  "function redeemPositions(bytes32 conditionId, uint256[] amounts)",
+];
+
+const MIN_LOOKBACK_MARKETS = 3;
+const MAX_ATTEMPTS = 3;                 // Transactions per condition before giving up
+const DROPPED_AFTER_MS = 15 * 60 * 1000; // A pending tx the RPC still doesn't know after this was dropped
+const GAMMA_DELAY_MS = 300;
+
+interface RedeemableCondition {
+  slug: string;
+  conditionId: string;
+  tokenIds: string[];          // In outcome order
+  negRisk: boolean;
+  fromTradeLog: boolean;
+}
+
+/** A resolved condition the wallet still holds tokens of. */
+interface HeldCondition extends RedeemableCondition {
+  amounts: ethers.BigNumber[]; // Balance of each token, in outcome order
+}
 
 const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 
@@ -33,7 +90,7 @@ const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
  * Parse the winning outcome from Gamma API market data.
  * outcomePrices is "1,0" or '["1","0"]' for resolved markets.
  */
-function getWinner(market: any): "Up" | "Down" | null {
+export function getWinner(market: GammaMarket): "Up" | "Down" | null {
   let outcomes: string[] = [];
   let prices: string[] = [];
   try {
@@ -55,171 +112,357 @@ function getWinner(market: any): "Up" | "Down" | null {
   return null;
 }
 
+let sweepRunning = false;
+let stateLoadedFrom: string | null = null;
+
 /**
- * Wait for a tx receipt with retries (public RPCs rate-limit aggressively).
+ * Run one redemption sweep over our traded conditions and the lookback
+ * window. Returns false without doing anything if a sweep is already in
+ * progress.
  */
-async function waitForTx(
-  tx: ethers.providers.TransactionResponse,
-  provider: ethers.providers.JsonRpcProvider,
-  logger: Logger,
-): Promise<ethers.providers.TransactionReceipt | null> {
-  // Try tx.wait() first
-  for (let attempt = 0; attempt < 3; attempt++) {
-    try {
-      return await tx.wait();
-    } catch {
-      logger(`[REDEEM] Waiting for confirmation (attempt ${attempt + 2}/4)...`);
-      await sleep(5000);
-    }
+export async function runRedemptionSweep(config: TraderConfig, logger: Logger): Promise<boolean> {
+  if (sweepRunning) {
+    logger.info("Sweep already in progress — skipped");
+    return false;
   }
-
-  // Last resort: poll getTransactionReceipt directly
+  sweepRunning = true;
   try {
-    await sleep(10000);
-    const receipt = await provider.getTransactionReceipt(tx.hash);
-    if (receipt && receipt.blockNumber) return receipt;
-  } catch {}
-
-  return null;
+    await sweep(config, logger);
+  } finally {
+    sweepRunning = false;
+  }
+  return true;
 }
 
 /**
- * Run one redemption sweep: scan the last N markets on-chain for unredeemed
- * CTF tokens held by the proxy wallet, then redeem them.
+ * Check if a redemption sweep is currently running.
  */
-export async function runRedemptionSweep(
-  privateKey: string,
-  funderAddress: string,
-  logger: Logger,
-): Promise<void> {
-  const rpcUrl = process.env.POLYGON_RPC_URL || "https://polygon-rpc.com";
+export function isSweepRunning(): boolean {
+  return sweepRunning;
+}
 
+async function sweep(config: TraderConfig, logger: Logger): Promise<void> {
   let provider: ethers.providers.JsonRpcProvider;
   let wallet: ethers.Wallet;
   try {
-    provider = new ethers.providers.JsonRpcProvider(rpcUrl);
-    wallet = new ethers.Wallet(privateKey, provider);
+    wallet = connectSigner(config);
+    provider = wallet.provider as ethers.providers.JsonRpcProvider;
   } catch (err: any) {
-    logger(`[REDEEM] Failed to connect to Polygon RPC: ${err.message}`);
+    logger.error(`Failed to connect to Polygon RPC: ${err.message}`);
     return;
   }
 
+  if (stateLoadedFrom !== config.redeemer.stateFile) {
+    try {
+      loadRedemptionState(config.redeemer.stateFile);
+      stateLoadedFrom = config.redeemer.stateFile;
+    } catch (err: any) {
+      logger.error(`Failed to read ${config.redeemer.stateFile}: ${err.message} — not redeeming until it's fixed`);
+      return;
+    }
+  }
+
   // Check MATIC balance for gas
   try {
-    const maticBal = await provider.getBalance(wallet.address);
+    const maticBal = await timeCall("rpc", "getBalance", () => provider.getBalance(wallet.address));
     if (maticBal.lt(ethers.utils.parseEther("0.001"))) {
-      logger(`[REDEEM] Skipping — EOA has insufficient MATIC for gas (${ethers.utils.formatEther(maticBal)})`);
+      logger.warn(`Skipping — EOA has insufficient MATIC for gas (${ethers.utils.formatEther(maticBal)})`);
       return;
     }
   } catch (err: any) {
-    logger(`[REDEEM] RPC error checking balance: ${err.message}`);
+    logger.error(`RPC error checking balance: ${err.message}`);
     return;
   }
 
-  const factory = new ethers.Contract(PROXY_WALLET_FACTORY, PROXY_FACTORY_ABI, wallet);
-  const ctf = new ethers.Contract(CTF_ADDRESS, CTF_ABI, provider);
+  await checkPendingTxs(provider, logger);
 
-  const nowSec = Math.floor(Date.now() / 1000);
-  const currentSlotStart = Math.floor(nowSec / MARKET_DURATION_SEC) * MARKET_DURATION_SEC;
-
-  const ctfIface = new ethers.utils.Interface(CTF_ABI);
+  const conditions = await findResolvedConditions(config, logger);
+  const held = await filterHeld(conditions, holderAddress(config, wallet), provider, logger);
+  if (held === null) return;
+  const heldIds = new Set(held.map((c) => c.conditionId));
+  markRedemptionsEmpty(conditions.filter((c) => c.fromTradeLog && !heldIds.has(c.conditionId)));
+  const redeemable = await skipUnapprovedNegRisk(held, holderAddress(config, wallet), provider, logger);
 
   let redeemedCount = 0;
+  const batchSize = Math.min(config.redeemer.batchSize, maxCallsPerTx(config));
+  for (let i = 0; i < redeemable.length; i += batchSize) {
+    const batch = redeemable.slice(i, i + batchSize);
+    const result = await redeemBatch(batch, wallet, config, logger);
+    if (result === "out-of-gas") break;
+    redeemedCount += result;
+  }
 
-  // Scan last 20 market slots for unredeemed tokens
-  for (let i = 1; i <= 20; i++) {
-    const slotStart = currentSlotStart - (i * MARKET_DURATION_SEC);
-    const slug = `btc-updown-15m-${slotStart}`;
+  markSweepComplete();
+  if (held.length === 0) {
+    logger.info("Sweep complete — no unredeemed tokens found");
+  } else {
+    logger.info(`Sweep complete — redeemed ${redeemedCount}/${held.length} condition(s)`);
+  }
+}
+
+/**
+ * Settle pending redemption txs from earlier sweeps (or before a restart)
+ * from their receipts, checking every version sent at the tx's nonce. A tx
+ * none of whose versions the RPC has heard of after DROPPED_AFTER_MS is
+ * marked dropped so its conditions are retried.
+ */
+async function checkPendingTxs(provider: ethers.providers.JsonRpcProvider, logger: Logger): Promise<void> {
+  const pending = getRedemptionsByStatus("pending");
+  const versions = new Map<string, string[]>(); // Latest hash -> every version's hash
+  for (const r of pending) versions.set(r.txHash!, [r.txHash!, ...(r.replacedTxHashes ?? [])]);
 
+  for (const [txHash, hashes] of versions) {
     try {
-      const res = await fetch(`${GAMMA_HOST}/markets?slug=${slug}`);
-      if (!res.ok) continue;
-      const markets = await res.json();
-      if (!Array.isArray(markets) || markets.length === 0) continue;
-
-      const market = markets[0];
-      const conditionId = market.conditionId || market.condition_id;
-      if (!conditionId) continue;
-
-      // Log resolution if we haven't already
-      const winner = getWinner(market);
-      if (winner && !hasResolution(slug)) {
-        logResolution(slug, winner);
-        logger(`[REDEEM] Resolved: ${slug} → ${winner}`);
+      let known = false;
+      let settled = false;
+      for (const hash of hashes) {
+        const receipt = await timeCall("rpc", "getTransactionReceipt", () => provider.getTransactionReceipt(hash));
+        if (receipt && receipt.blockNumber) {
+          settleTx(txHash, receipt.status === 1 ? "confirmed" : "reverted", logger, receipt.blockNumber, hash);
+          settled = true;
+          break;
+        }
+        if (await timeCall("rpc", "getTransaction", () => provider.getTransaction(hash))) known = true;
       }
+      if (settled) continue;
+      const sentAt = Math.max(...pending.filter((r) => r.txHash === txHash).map((r) => r.updatedAt));
+      if (!known && Date.now() - sentAt > DROPPED_AFTER_MS) {
+        settleTx(txHash, "dropped", logger);
+      }
+    } catch (err: any) {
+      logger.warn(`Couldn't check redemption tx ${txHash}: ${err.message || err}`, { txHash });
+    }
+  }
+}
 
-      let tokenIds: string[] = [];
-      try {
-        tokenIds = typeof market.clobTokenIds === "string"
-          ? JSON.parse(market.clobTokenIds)
-          : (market.clobTokenIds || []);
-      } catch { continue; }
-
-      await sleep(2000); // respect RPC rate limits
-
-      for (const tokenId of tokenIds) {
-        let bal: ethers.BigNumber;
-        try {
-          bal = await ctf.balanceOf(funderAddress, tokenId);
-        } catch {
-          await sleep(5000);
-          continue;
-        }
+/**
+ * Resolved markets to consider this sweep: our traded conditions, then the
+ * lookback window, minus those already confirmed, empty, pending or out of
+ * attempts. Logs resolutions to trades.jsonl as they're found, even while the
+ * trade log points at the paper ledger.
+ */
+async function findResolvedConditions(config: TraderConfig, logger: Logger): Promise<RedeemableCondition[]> {
+  const traded = new Map<string, string | undefined>(); // Slug -> condition id, if the buy recorded it
+  const tradedNegRisk = new Set<string>();
+  for (const e of readTradeLog(LIVE_TRADE_LOG_FILE)) {
+    if (e.type !== "buy" || e.size <= 0) continue;
+    traded.set(e.slug, e.conditionId ?? traded.get(e.slug));
+    if (e.negRisk) tradedNegRisk.add(e.slug);
+  }
 
-        if (bal.gt(0)) {
-          const shares = ethers.utils.formatUnits(bal, 6);
-          logger(`[REDEEM] Found ${shares} shares on ${slug} (condition: ${conditionId.slice(0, 10)}...)`);
-
-          await sleep(3000);
-
-          try {
-            const data = ctfIface.encodeFunctionData("redeemPositions", [
-              USDC_ADDRESS,
-              ethers.constants.HashZero,
-              conditionId,
-              [1, 2],
-            ]);
-
-            const tx = await factory.proxy(
-              [{ to: CTF_ADDRESS, typeCode: "1", data, value: "0" }],
-              { gasLimit: 500000, gasPrice: ethers.utils.parseUnits("50", "gwei") },
-            );
-
-            logger(`[REDEEM] Tx submitted: ${tx.hash}`);
-
-            const receipt = await waitForTx(tx, provider, logger);
-
-            if (receipt && receipt.status === 1) {
-              logger(`[REDEEM] Redeemed ${shares} shares from ${slug} — block ${receipt.blockNumber}`);
-              redeemedCount++;
-            } else if (receipt && receipt.status === 0) {
-              logger(`[REDEEM] Tx reverted on ${slug} — market may not be resolved yet`);
-            } else {
-              logger(`[REDEEM] Tx sent for ${slug} (${tx.hash}) — receipt unavailable due to RPC limits, will verify next sweep`);
-              redeemedCount++;
-            }
-          } catch (err: any) {
-            const reason = err.reason || err.error?.message || err.message || String(err);
-            if (reason.includes("insufficient funds")) {
-              logger(`[REDEEM] Out of MATIC for gas — stopping sweep`);
-              return;
-            }
-            logger(`[REDEEM] Failed on ${slug}: ${reason}`);
-          }
-
-          await sleep(5000); // longer pause between redemptions
-        }
-      }
-    } catch {
-      continue;
+  const nowSec = Math.floor(Date.now() / 1000);
+  const slugs = [
+    ...Array.from(traded.keys()).reverse(),
+    ...config.series.flatMap((s) => recentSlugs(s, config.redeemer.lookbackHours, nowSec)).filter((slug) => !traded.has(slug)),
+  ];
+
+  const found: RedeemableCondition[] = [];
+  for (const slug of slugs) {
+    const knownId = traded.get(slug) ?? getCachedConditionId(slug);
+    if (knownId && !isRedeemable(getRedemption(knownId))) continue;
+
+    const market = await fetchMarketBySlug(slug);
+    await sleep(GAMMA_DELAY_MS);
+    const conditionId: string | undefined = market?.conditionId || market?.condition_id;
+    if (conditionId && traded.has(slug)) cacheConditionId(slug, conditionId);
+    if (!market || !conditionId || !isRedeemable(getRedemption(conditionId))) continue;
+
+    // Only resolved markets can be redeemed; log the resolution if we haven't already
+    const winner = getWinner(market);
+    if (!winner) continue;
+    if (!hasResolution(slug, LIVE_TRADE_LOG_FILE)) {
+      logResolution(slug, winner, LIVE_TRADE_LOG_FILE);
+      logger.info(`Resolved: ${slug} → ${winner}`, { slug, resolved: winner });
     }
+
+    let tokenIds: string[] = [];
+    try {
+      tokenIds = typeof market.clobTokenIds === "string"
+        ? JSON.parse(market.clobTokenIds)
+        : (market.clobTokenIds || []);
+    } catch { continue; }
+    if (tokenIds.length === 0) continue;
+
+    const negRisk = Boolean(market.negRisk ?? market.neg_risk) || tradedNegRisk.has(slug);
+    found.push({ slug, conditionId, tokenIds, negRisk, fromTradeLog: traded.has(slug) });
   }
+  return found;
+}
 
-  if (redeemedCount === 0) {
-    logger("[REDEEM] Sweep complete — no unredeemed tokens found");
-  } else {
-    logger(`[REDEEM] Sweep complete — redeemed ${redeemedCount} position(s)`);
+/**
+ * Whether a condition may be sent (again): never tried, or reverted/dropped
+ * with attempts left.
+ */
+function isRedeemable(record: RedemptionRecord | undefined): boolean {
+  if (!record) return true;
+  return (record.status === "reverted" || record.status === "dropped") && record.attempts < MAX_ATTEMPTS;
+}
+
+/**
+ * The conditions the wallet still holds tokens of, via balanceOfBatch.
+ * Returns null if the RPC call fails.
+ */
+async function filterHeld(
+  conditions: RedeemableCondition[],
+  holder: string,
+  provider: ethers.providers.JsonRpcProvider,
+  logger: Logger,
+): Promise<HeldCondition[] | null> {
+  const ctf = new ethers.Contract(CTF_ADDRESS, CTF_ABI, provider);
+  const held: HeldCondition[] = [];
+  const CHUNK = 50;
+
+  for (let i = 0; i < conditions.length; i += CHUNK) {
+    const chunk = conditions.slice(i, i + CHUNK);
+    const ids = chunk.flatMap((c) => c.tokenIds);
+    let balances: ethers.BigNumber[];
+    try {
+      balances = await timeCall("rpc", "balanceOfBatch", () => ctf.balanceOfBatch(ids.map(() => holder), ids));
+    } catch (err: any) {
+      logger.error(`RPC error reading token balances: ${err.message || err}`);
+      return null;
+    }
+
+    let k = 0;
+    for (const c of chunk) {
+      const shares = c.tokenIds.map(() => balances[k++]);
+      const total = shares.reduce((sum, b) => sum.add(b), ethers.BigNumber.from(0));
+      if (total.isZero()) continue;
+      logger.info(`Found ${ethers.utils.formatUnits(total, 6)} shares on ${c.slug}${c.negRisk ? " (neg-risk)" : ""} (condition: ${c.conditionId.slice(0, 10)}...)`, { slug: c.slug, conditionId: c.conditionId });
+      held.push({ ...c, amounts: shares });
+    }
+  }
+  return held;
+}
+
+/**
+ * Drop neg-risk conditions if the NegRiskAdapter isn't approved to move the
+ * wallet's CTF tokens (the adapter's redeemPositions would revert).
+ */
+async function skipUnapprovedNegRisk(
+  held: HeldCondition[],
+  holder: string,
+  provider: ethers.providers.JsonRpcProvider,
+  logger: Logger,
+): Promise<HeldCondition[]> {
+  const negRisk = held.filter((c) => c.negRisk);
+  if (negRisk.length === 0) return held;
+
+  const ctf = new ethers.Contract(CTF_ADDRESS, CTF_ABI, provider);
+  try {
+    if (await timeCall("rpc", "isApprovedForAll", () => ctf.isApprovedForAll(holder, NEG_RISK_ADAPTER))) return held;
+    logger.warn(`NegRiskAdapter isn't approved for the wallet's CTF tokens (run bun run setup-approvals) — skipping ${negRisk.length} neg-risk market(s): ${negRisk.map((c) => c.slug).join(", ")}`);
+  } catch (err: any) {
+    logger.error(`RPC error checking NegRiskAdapter approval: ${err.message || err} — skipping neg-risk markets`);
   }
+  return held.filter((c) => !c.negRisk);
+}
+
+/**
+ * Redeem a batch of conditions in one wallet transaction. Returns the number
+ * of conditions redeemed, or "out-of-gas" to stop the sweep. A tx that isn't
+ * mined in time (even after replacements) stays pending for the next sweep.
+ */
+async function redeemBatch(
+  batch: HeldCondition[],
+  wallet: ethers.Wallet,
+  config: TraderConfig,
+  logger: Logger,
+): Promise<number | "out-of-gas"> {
+  const slugs = batch.map((c) => c.slug).join(", ");
+  const calls = batch.map(redemptionCall);
+
+  let latestHash: string | null = null;
+  const onSent = (txHash: string) => {
+    if (latestHash) {
+      replaceRedemptionTx(latestHash, txHash);
+    } else {
+      markRedemptionsPending(batch, txHash);
+      logger.info(`Tx submitted: ${txHash} (${batch.length} condition(s): ${slugs})`, { txHash, slugs });
+    }
+    latestHash = txHash;
+  };
+
+  let result;
+  try {
+    result = await executeCalls(config, wallet, calls, logger, onSent);
+  } catch (err: any) {
+    const reason = err.reason || err.error?.message || err.message || String(err);
+    if (latestHash) {
+      // Sent, but waiting failed — the next sweep checks for a receipt
+      logger.warn(`Lost track of tx ${latestHash} for ${slugs}: ${reason} — will verify next sweep`, { txHash: latestHash });
+      return 0;
+    }
+    incCounter("redemption_txs_total", { result: "failed" });
+    if (reason.includes("insufficient funds")) {
+      logger.error(`Out of MATIC for gas — stopping sweep`);
+      notify("redemption", "Redemption stopped", "Out of MATIC for gas");
+      return "out-of-gas";
+    }
+    logger.error(`Failed on ${slugs}: ${reason}`, { slugs });
+    notify("redemption", `Redemption failed on ${batch.length} market(s)`, `${slugs}: ${reason}`);
+    return 0;
+  }
+
+  if (result.receipt) {
+    const status = result.receipt.status === 1 ? "confirmed" : "reverted";
+    return settleTx(latestHash!, status, logger, result.receipt.blockNumber, result.txHash).length;
+  }
+  incCounter("redemption_txs_total", { result: "unconfirmed" });
+  logger.warn(`Tx for ${slugs} not mined after ${result.txHashes.length} version(s) (latest ${result.txHash}) — will verify next sweep`, { txHash: result.txHash });
+  return 0;
+}
+
+/**
+ * The call that redeems a condition: the CTF's redeemPositions for both
+ * index sets, or for neg-risk markets the adapter's with the amount held of
+ * each outcome.
+ */
+function redemptionCall(c: HeldCondition): WalletCall {
+  if (c.negRisk) {
+    const adapterIface = new ethers.utils.Interface(NEG_RISK_ADAPTER_ABI);
+    return { to: NEG_RISK_ADAPTER, data: adapterIface.encodeFunctionData("redeemPositions", [c.conditionId, c.amounts]) };
+  }
+  const ctfIface = new ethers.utils.Interface(CTF_ABI);
+  return {
+    to: CTF_ADDRESS,
+    data: ctfIface.encodeFunctionData("redeemPositions", [USDC_ADDRESS, ethers.constants.HashZero, c.conditionId, [1, 2]]),
+  };
+}
+
+/**
+ * Record a redemption tx's outcome for its conditions, and count and report it.
+ */
+function settleTx(
+  txHash: string,
+  status: "confirmed" | "reverted" | "dropped",
+  logger: Logger,
+  block?: number,
+  minedHash = txHash,
+): RedemptionRecord[] {
+  const settled = settleRedemptionTx(txHash, status, minedHash);
+  const slugs = settled.map((r) => r.slug).join(", ");
+  if (status === "confirmed") {
+    incCounter("redemption_txs_total", { result: "confirmed" });
+    logger.info(`Redeemed ${slugs}${block ? ` — block ${block}` : ""}`, { txHash: minedHash, block });
+    notify("redemption", `Redeemed ${settled.length} market(s)`, `${slugs} — tx ${minedHash}`);
+    return settled;
+  }
+
+  if (status === "reverted") incCounter("redemption_txs_total", { result: "reverted" });
+  const exhausted = settled.filter((r) => r.attempts >= MAX_ATTEMPTS);
+  logger.warn(`Tx ${status} for ${slugs}${exhausted.length > 0 ? ` — giving up on ${exhausted.map((r) => r.slug).join(", ")}` : " — will retry next sweep"}`, { txHash: minedHash });
+  notify("redemption", `Redemption ${status}`, `${slugs} — tx ${minedHash}${exhausted.length > 0 ? ` (gave up after ${MAX_ATTEMPTS} attempts)` : ""}`);
+  return [];
+}
+
+/**
+ * Slugs of a series' ended markets within the lookback, newest first.
+ */
+function recentSlugs(series: MarketSeries, lookbackHours: number, nowSec: number): string[] {
+  const currentSlotStart = getSlotStart(series, nowSec);
+  const count = Math.max(MIN_LOOKBACK_MARKETS, Math.ceil((lookbackHours * 3600) / series.durationSec));
+  return Array.from({ length: count }, (_, i) => buildMarketSlug(series, currentSlotStart - (i + 1) * series.durationSec));
 }
 
 let redeemTimer: ReturnType<typeof setInterval> | null = null;
@@ -227,20 +470,18 @@ let redeemTimer: ReturnType<typeof setInterval> | null = null;
 /**
  * Start the redemption timer: first sweep at 30s, then every 45 minutes.
  */
-export function startRedemptionTimer(
-  privateKey: string,
-  funderAddress: string,
-  logger: Logger,
-): void {
+export function startRedemptionTimer(config: TraderConfig, logger: Logger): void {
   const FORTY_FIVE_MIN_MS = 45 * 60 * 1000;
 
-  logger("[REDEEM] Redemption timer started (first sweep in 30s, then every 45min)");
-
-  setTimeout(() => runRedemptionSweep(privateKey, funderAddress, logger), 30_000);
+  logger.info("Redemption timer started (first sweep in 30s, then every 45min)");
 
-  redeemTimer = setInterval(() => {
-    runRedemptionSweep(privateKey, funderAddress, logger);
-  }, FORTY_FIVE_MIN_MS);
+  const sweep = () => {
+    runRedemptionSweep(config, logger).catch((err: any) => {
+      logger.error(`Redemption sweep failed: ${err.message || err}`);
+    });
+  };
+  setTimeout(sweep, 30_000);
+  redeemTimer = setInterval(sweep, FORTY_FIVE_MIN_MS);
 }
 
 /**
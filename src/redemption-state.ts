@@ -0,0 +1,153 @@
+/**
+ * Per-condition redemption state, so a redemption is never lost or sent twice.
+ *
+ * Each condition the redeemer has sent a transaction for is tracked as
+ * pending (tx sent, outcome unknown), confirmed, reverted or dropped (never
+ * mined), together with the hashes of every version of its tx (a stuck tx
+ * is replaced at the same nonce, and any version may be the one mined).
+ * Traded conditions found resolved with no tokens left to redeem are
+ * recorded as empty, so they aren't checked again. The condition ids of
+ * traded slugs are cached too, so buys logged without one are looked up on
+ * Gamma only once. State is snapshotted to redemption-state.json on every
+ * change and loaded back on the first sweep after a restart.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+
+export type RedemptionStatus = "pending" | "confirmed" | "reverted" | "dropped" | "empty";
+
+export interface RedemptionRecord {
+  conditionId: string;
+  slug: string;
+  status: RedemptionStatus;
+  txHash: string | null;      // Latest tx sent (null for empty)
+  replacedTxHashes?: string[]; // Earlier versions of txHash at the same nonce
+  attempts: number;           // Transactions sent for this condition
+  updatedAt: number;          // Unix ms
+}
+
+interface RedemptionSnapshot {
+  savedAt: string;
+  conditions: RedemptionRecord[];
+  conditionIds?: Record<string, string>; // Slug -> condition id
+}
+
+let stateFile: string | null = null;
+let records = new Map<string, RedemptionRecord>(); // Condition id -> record
+let conditionIds = new Map<string, string>();      // Slug -> condition id
+
+/**
+ * Load state from `path` (or start empty if it doesn't exist) and persist
+ * to it from now on.
+ */
+export function loadRedemptionState(path: string): void {
+  stateFile = path;
+  records = new Map();
+  conditionIds = new Map();
+  if (!existsSync(path)) return;
+  const snap: RedemptionSnapshot = JSON.parse(readFileSync(path, "utf-8"));
+  for (const r of snap.conditions || []) records.set(r.conditionId, r);
+  for (const [slug, id] of Object.entries(snap.conditionIds || {})) conditionIds.set(slug, id);
+}
+
+/**
+ * The cached condition id of a traded slug, if it was looked up before.
+ */
+export function getCachedConditionId(slug: string): string | undefined {
+  return conditionIds.get(slug);
+}
+
+/**
+ * Remember a traded slug's condition id.
+ */
+export function cacheConditionId(slug: string, conditionId: string): void {
+  if (conditionIds.get(slug) === conditionId) return;
+  conditionIds.set(slug, conditionId);
+  saveState();
+}
+
+/**
+ * The state of a condition, or undefined if no redemption was ever sent.
+ */
+export function getRedemption(conditionId: string): RedemptionRecord | undefined {
+  return records.get(conditionId);
+}
+
+/**
+ * All tracked conditions with this status.
+ */
+export function getRedemptionsByStatus(status: RedemptionStatus): RedemptionRecord[] {
+  return Array.from(records.values()).filter((r) => r.status === status);
+}
+
+/**
+ * Record that a redemption tx was sent for these conditions.
+ */
+export function markRedemptionsPending(conditions: { conditionId: string; slug: string }[], txHash: string): void {
+  const nowMs = Date.now();
+  for (const c of conditions) {
+    const attempts = (records.get(c.conditionId)?.attempts ?? 0) + 1;
+    records.set(c.conditionId, { ...c, status: "pending", txHash, replacedTxHashes: [], attempts, updatedAt: nowMs });
+  }
+  saveState();
+}
+
+/**
+ * Point every condition pending on `oldHash` at its replacement `newHash`.
+ */
+export function replaceRedemptionTx(oldHash: string, newHash: string): void {
+  for (const r of records.values()) {
+    if (r.txHash !== oldHash || r.status !== "pending") continue;
+    r.replacedTxHashes = [...(r.replacedTxHashes ?? []), oldHash];
+    r.txHash = newHash;
+  }
+  saveState();
+}
+
+/**
+ * Record resolved conditions that hold no tokens, so they aren't checked again.
+ */
+export function markRedemptionsEmpty(conditions: { conditionId: string; slug: string }[]): void {
+  if (conditions.length === 0) return;
+  const nowMs = Date.now();
+  for (const c of conditions) {
+    records.set(c.conditionId, { ...c, status: "empty", txHash: null, attempts: records.get(c.conditionId)?.attempts ?? 0, updatedAt: nowMs });
+  }
+  saveState();
+}
+
+/**
+ * Settle every condition waiting on `txHash` as confirmed, reverted or
+ * dropped (the tx never made it on-chain). `minedHash` is the version that
+ * was mined, if not the latest; it becomes the record's txHash.
+ */
+export function settleRedemptionTx(
+  txHash: string,
+  status: "confirmed" | "reverted" | "dropped",
+  minedHash = txHash,
+): RedemptionRecord[] {
+  const settled = Array.from(records.values()).filter((r) => r.txHash === txHash && r.status === "pending");
+  for (const r of settled) {
+    if (minedHash !== txHash) {
+      r.replacedTxHashes = [...(r.replacedTxHashes ?? []).filter((h) => h !== minedHash), txHash];
+      r.txHash = minedHash;
+    }
+    r.status = status;
+    r.updatedAt = Date.now();
+  }
+  saveState();
+  return settled;
+}
+
+function saveState(): void {
+  if (!stateFile) return;
+  const snap: RedemptionSnapshot = {
+    savedAt: new Date().toISOString(),
+    conditions: Array.from(records.values()),
+    conditionIds: Object.fromEntries(conditionIds),
+  };
+  try {
+    writeFileSync(stateFile + ".tmp", JSON.stringify(snap, null, 2));
+    renameSync(stateFile + ".tmp", stateFile);
+  } catch {}
+}
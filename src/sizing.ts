@@ -0,0 +1,98 @@
+/**
+ * Position sizing: how many USDC to stake on an entry.
+ *
+ * Modes (config.sizing.mode):
+ *   - "fixed":    a fixed stake (fixedUsdc, default maxOrderSize)
+ *   - "fraction": a fraction of the current balance
+ *   - "kelly":    fractional Kelly on the entry's estimated win probability.
+ *                 For a share bought at price p that pays $1 with probability
+ *                 q, the Kelly fraction of bankroll is (q - p) / (1 - p).
+ *
+ * The win probability is the strategy's own estimate (TradeSignal
+ * winProbability) if it gives one, else the outcome's spot-implied fair
+ * value. The balance is the paper balance in dry-run, else the CLOB
+ * collateral balance.
+ *
+ * Every stake is capped by the guardrails — maxOrderSize and the room left
+ * under maxPositionSize — and entries whose stake falls below minOrderUsdc
+ * are skipped. Sizing only ever shrinks the order the strategy planned, which
+ * is already limited by maxOrderSize and, for marketable orders, the book.
+ */
+
+import { SizingConfig, TraderConfig } from "./config.js";
+import { fetchBalance } from "./balance.js";
+import { getPaperBalance } from "./paper-trader.js";
+import { getOpenExposure } from "./guardrails.js";
+
+export interface StakeResult {
+  stake: number;              // USDC to spend
+  basis: string;              // How the stake was arrived at, for logs
+}
+
+/**
+ * USDC stake for buying at `price` with win probability `winProbability`
+ * (needed in kelly mode). Returns a reason string when the entry should be
+ * skipped.
+ */
+export async function computeStake(
+  config: TraderConfig,
+  price: number,
+  winProbability: number | undefined,
+): Promise<StakeResult | string> {
+  const sizing = config.sizing;
+  let stake: number;
+  let basis: string;
+
+  switch (sizing.mode) {
+    case "fixed":
+      stake = sizing.fixedUsdc ?? config.maxOrderSize;
+      basis = `fixed $${stake.toFixed(2)}`;
+      break;
+    case "fraction": {
+      const balance = await getBankroll(config);
+      stake = balance * sizing.fraction;
+      basis = `${(sizing.fraction * 100).toFixed(1)}% of $${balance.toFixed(2)}`;
+      break;
+    }
+    case "kelly": {
+      if (winProbability === undefined) return "Win probability unavailable for Kelly sizing";
+      if (price <= 0 || price >= 1) return `Can't Kelly-size at price $${price.toFixed(3)}`;
+      const kelly = (winProbability - price) / (1 - price);
+      if (kelly <= 0) {
+        return `No Kelly edge: win probability ${winProbability.toFixed(3)} <= price $${price.toFixed(3)}`;
+      }
+      const balance = await getBankroll(config);
+      stake = balance * kelly * sizing.kellyFraction;
+      basis = `${sizing.kellyFraction}× Kelly ${(kelly * 100).toFixed(1)}% of $${balance.toFixed(2)}`;
+      break;
+    }
+    default:
+      throw new Error(`Unknown sizing mode: ${(sizing as SizingConfig).mode}`);
+  }
+
+  const room = config.maxPositionSize - getOpenExposure();
+  if (stake > config.maxOrderSize) {
+    stake = config.maxOrderSize;
+    basis += `, capped at max order $${config.maxOrderSize}`;
+  }
+  if (stake > room) {
+    stake = Math.max(0, room);
+    basis += `, capped at $${stake.toFixed(2)} position room`;
+  }
+  if (stake < sizing.minOrderUsdc) {
+    return `Stake $${stake.toFixed(2)} (${basis}) < min order $${sizing.minOrderUsdc.toFixed(2)}`;
+  }
+  return { stake, basis };
+}
+
+/**
+ * Balance sizing is based on: the paper balance in dry-run, else the CLOB
+ * collateral balance.
+ */
+async function getBankroll(config: TraderConfig): Promise<number> {
+  if (config.dryRun) return getPaperBalance(config.paper);
+  const balance = await fetchBalance();
+  const collateral = parseFloat(balance.collateral) / 1e6;
+  if (!Number.isFinite(collateral)) throw new Error("Balance unavailable for sizing");
+  return collateral;
+}
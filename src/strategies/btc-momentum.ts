@@ -0,0 +1,108 @@
+/**
+ * Strategy: "BTC Momentum"
+ *
+ * Trades on the underlying instead of the order book: once the series' asset
+ * (BTC unless configured otherwise) has moved far enough from its price at
+ * the market's start (see fair-value), buys the outcome in the direction of
+ * the move — as long as the book hasn't already priced it in. Its win
+ * probability for Kelly sizing is the spot-implied chance that the move
+ * holds to the close (see fair-value).
+ *
+ * Config block "btc-momentum":
+ *   minMovePct       (0.0015) Spot move from open required, as a fraction (0.0015 = 0.15%)
+ *   maxEntryPrice    (0.80)   don't buy once the outcome is priced above this
+ *   entryWindowStart (5)      latest entry, in minutes remaining
+ *   entryWindowEnd   (12)     earliest entry, in minutes remaining
+ */
+
+import { ActiveMarket, isInEntryWindow } from "../market-discovery.js";
+import { TraderConfig } from "../config.js";
+import { getSpotPrice } from "../price-feed.js";
+import { computeFairValue, fairValueOf, getMarketOpenPrice } from "../fair-value.js";
+import type { Strategy, TradeSignal } from "../strategy.js";
+import { evaluateStandardExit, getStrategyParams, planEntry } from "./common.js";
+
+const NAME = "btc-momentum";
+
+interface BtcMomentumParams {
+  minMovePct: number;
+  maxEntryPrice: number;
+  entryWindowStart: number;
+  entryWindowEnd: number;
+}
+
+function resolveParams(config: TraderConfig): BtcMomentumParams {
+  const raw = getStrategyParams(config, NAME);
+  return {
+    minMovePct: (raw.minMovePct as number) ?? 0.0015,
+    maxEntryPrice: (raw.maxEntryPrice as number) ?? 0.80,
+    entryWindowStart: (raw.entryWindowStart as number) ?? 5,
+    entryWindowEnd: (raw.entryWindowEnd as number) ?? 12,
+  };
+}
+
+async function evaluateEntry(market: ActiveMarket, config: TraderConfig): Promise<TradeSignal> {
+  const params = resolveParams(config);
+
+  let spot: number;
+  let open: number;
+  try {
+    open = await getMarketOpenPrice(market);
+    spot = await getSpotPrice(market.series);
+  } catch (err: any) {
+    return { signal: "WAIT", reason: `${market.series.asset} price unavailable: ${err.message || err}` };
+  }
+  const asset = market.series.asset;
+
+  if (!isInEntryWindow(market, params.entryWindowStart, params.entryWindowEnd)) {
+    return {
+      signal: "WAIT",
+      reason: `Outside momentum window: ${market.minutesRemaining.toFixed(1)}min remaining (window: ${params.entryWindowStart}-${params.entryWindowEnd}min)`,
+    };
+  }
+
+  const move = (spot - open) / open;
+  const moveStr = `${(move * 100).toFixed(3)}%`;
+  if (Math.abs(move) < params.minMovePct) {
+    return {
+      signal: "WAIT",
+      reason: `${asset} ${moveStr} from open $${Number(open.toPrecision(6))} < ${(params.minMovePct * 100).toFixed(3)}%`,
+    };
+  }
+
+  const direction = move > 0 ? "Up" : "Down";
+  const target = market.outcomes.find((o) => o.outcome === direction);
+  if (!target || target.price <= 0) {
+    return { signal: "WAIT", reason: `No price for "${direction}"` };
+  }
+
+  if (target.price > params.maxEntryPrice) {
+    return {
+      signal: "WAIT",
+      reason: `${asset} ${moveStr} but "${direction}" already at $${target.price.toFixed(2)} > max $${params.maxEntryPrice}`,
+    };
+  }
+
+  const plan = planEntry(market, target, config);
+  if (typeof plan === "string") {
+    return { signal: "WAIT", reason: plan };
+  }
+
+  const fairValue = await computeFairValue(market);
+  return {
+    signal: "BUY",
+    outcome: target,
+    reason: `Momentum: ${asset} ${moveStr} from open, buying "${direction}" at $${target.price.toFixed(2)} with ${market.minutesRemaining.toFixed(1)}min remaining`,
+    suggestedSize: plan.size,
+    suggestedPrice: plan.price,
+    orderType: plan.orderType,
+    winProbability: fairValue ? fairValueOf(fairValue, direction) : undefined,
+  };
+}
+
+export const btcMomentum: Strategy = {
+  name: NAME,
+  description: "Buy in the direction of the underlying's move since market open",
+  evaluateEntry,
+  evaluateExit: evaluateStandardExit,
+};
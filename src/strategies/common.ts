@@ -0,0 +1,194 @@
+/**
+ * Helpers shared by the built-in strategies: exit rules and order pricing
+ * and sizing.
+ *
+ * Orders are priced per config.execution.orderType. GTC orders rest at the
+ * midpoint. FOK/FAK orders are marketable: they walk the outcome's book from
+ * the best price up to maxSlippage past it, and are priced at the deepest
+ * level reached and sized to the liquidity found there (within maxOrderSize
+ * for entries). Without a book they are priced maxSlippage past the midpoint.
+ */
+
+import { ActiveMarket, BookLevel, MarketOutcome, getSpread } from "../market-discovery.js";
+import { TimeInForce, TraderConfig } from "../config.js";
+import { PositionRecord } from "../guardrails.js";
+import type { TradeSignal } from "../strategy.js";
+import type { ExitType } from "../trade-log.js";
+
+/**
+ * Read a strategy's config block: TraderConfig.strategyParams[name], which
+ * configFromFile fills from the "strategies" object in config.json
+ * (e.g. "strategies": { "ride-the-wave": { ... } }).
+ */
+export function getStrategyParams(config: TraderConfig, name: string): Record<string, unknown> {
+  return config.strategyParams[name] ?? {};
+}
+
+/**
+ * Number of whole shares that fit in one max-size order at this price.
+ */
+export function sharesFor(config: TraderConfig, price: number): number {
+  if (price <= 0) return 0;
+  return Math.floor(config.maxOrderSize / price);
+}
+
+export interface OrderPlan {
+  price: number;              // Limit price per share
+  size: number;               // Shares
+  orderType: TimeInForce;
+}
+
+/**
+ * Price and size an entry into `outcome`. Returns a reason string instead
+ * when the spread is too wide or there isn't enough liquidity.
+ */
+export function planEntry(market: ActiveMarket, outcome: MarketOutcome, config: TraderConfig): OrderPlan | string {
+  const { orderType, maxSpread, maxSlippage } = config.execution;
+  const spread = getSpread(outcome);
+  if (maxSpread !== null && spread !== null && spread > maxSpread + 1e-9) {
+    return `Spread $${spread.toFixed(3)} on "${outcome.outcome}" > max $${maxSpread.toFixed(3)}`;
+  }
+
+  if (orderType === "GTC" || !outcome.asks) {
+    const price = orderType === "GTC" ? outcome.price : roundToTick(outcome.price + maxSlippage, market.tickSize);
+    const size = sharesFor(config, price);
+    return size > 0 ? { price, size, orderType } : "Order size too small for current price";
+  }
+
+  const { price, size } = walkBook(outcome.asks, "BUY", maxSlippage, Infinity, config.maxOrderSize);
+  if (size <= 0) {
+    return `No ask liquidity for "${outcome.outcome}" within $${maxSlippage.toFixed(2)} of the best ask`;
+  }
+  return { price, size, orderType };
+}
+
+/**
+ * Price and size the sale of `size` shares of `outcome`. Marketable exits
+ * are cut to the bid liquidity within maxSlippage; with none there, the
+ * exit rests at the midpoint instead (GTC).
+ */
+export function planExit(market: ActiveMarket, outcome: MarketOutcome, size: number, config: TraderConfig): OrderPlan {
+  const { orderType, maxSlippage } = config.execution;
+  if (orderType === "GTC") return { price: outcome.price, size, orderType };
+  if (!outcome.bids) {
+    return { price: roundToTick(Math.max(0, outcome.price - maxSlippage), market.tickSize), size, orderType };
+  }
+
+  const fill = walkBook(outcome.bids, "SELL", maxSlippage, size, Infinity);
+  if (fill.size <= 0) return { price: outcome.price, size, orderType: "GTC" };
+  return { price: fill.price, size: fill.size, orderType };
+}
+
+/**
+ * Walk book levels (best first) up to maxSlippage past the best price,
+ * taking whole shares until maxShares or maxCost is reached. Returns the
+ * deepest price reached and the shares available up to it.
+ */
+function walkBook(
+  levels: BookLevel[],
+  side: "BUY" | "SELL",
+  maxSlippage: number,
+  maxShares: number,
+  maxCost: number,
+): { price: number; size: number } {
+  if (levels.length === 0) return { price: 0, size: 0 };
+  const limit = side === "BUY" ? levels[0][0] + maxSlippage : levels[0][0] - maxSlippage;
+
+  let price = levels[0][0];
+  let size = 0;
+  let cost = 0;
+  for (const [levelPrice, levelSize] of levels) {
+    if (side === "BUY" ? levelPrice > limit + 1e-9 : levelPrice < limit - 1e-9) break;
+    const take = Math.floor(Math.min(levelSize, maxShares - size, (maxCost - cost) / levelPrice));
+    if (take <= 0) break;
+    size += take;
+    cost += take * levelPrice;
+    price = levelPrice;
+    if (take < levelSize) break;
+  }
+  return { price, size };
+}
+
+function roundToTick(price: number, tickSize: string): number {
+  const tick = parseFloat(tickSize) || 0.01;
+  return Math.min(1 - tick, Math.max(tick, Math.round(price / tick) * tick));
+}
+
+/**
+ * Standard exit rules shared by the built-in strategies: SELL on stop-loss,
+ * take-profit or late-window profit lock, otherwise HOLD. Cash-out of held
+ * positions happens separately after the market resolves (see redeemer).
+ */
+export function evaluateStandardExit(
+  market: ActiveMarket,
+  position: PositionRecord,
+  config: TraderConfig,
+): TradeSignal {
+  const held = market.outcomes.find((o) => o.tokenId === position.tokenId);
+  if (!held) {
+    return { signal: "HOLD", reason: "Can't find current price for held position" };
+  }
+
+  const currentValue = held.price * position.size;
+  const unrealizedGainPct = (currentValue - position.costBasis) / position.costBasis;
+  const gainStr = `${(unrealizedGainPct * 100).toFixed(1)}%`;
+
+  const exit = (exitType: ExitType, reason: string): TradeSignal => {
+    const plan = planExit(market, held, position.size, config);
+    return {
+      signal: "SELL",
+      outcome: held,
+      reason,
+      suggestedSize: plan.size,
+      suggestedPrice: plan.price,
+      orderType: plan.orderType,
+      unrealizedGainPct,
+      exitType,
+    };
+  };
+
+  const stopReason = checkStopLoss(market, held.price, unrealizedGainPct, config);
+  if (stopReason) {
+    return exit("stop-loss", `Stop loss: "${position.outcome}" ${stopReason}`);
+  }
+
+  if (unrealizedGainPct >= config.takeProfitPct) {
+    return exit("take-profit", `Take profit: "${position.outcome}" at ${gainStr} >= ${(config.takeProfitPct * 100).toFixed(0)}%`);
+  }
+
+  if (market.minutesRemaining < config.profitLockMinutes && unrealizedGainPct > config.profitLockPct) {
+    return exit("profit-lock", `Profit lock: "${position.outcome}" at ${gainStr} with ${market.minutesRemaining.toFixed(1)}min remaining`);
+  }
+
+  return {
+    signal: "HOLD",
+    reason: `Holding "${position.outcome}" at ${gainStr} unrealized — waiting for resolution`,
+    unrealizedGainPct,
+  };
+}
+
+/**
+ * Return a description of the triggered stop-loss rule, or null if none fired.
+ * A zero price means the CLOB midpoint fetch failed, so it never triggers a stop.
+ */
+function checkStopLoss(
+  market: ActiveMarket,
+  price: number,
+  unrealizedGainPct: number,
+  config: TraderConfig,
+): string | null {
+  if (price <= 0) return null;
+  if (config.stopLossWithinMinutes !== null && market.minutesRemaining > config.stopLossWithinMinutes) {
+    return null;
+  }
+
+  if (config.stopLossPct !== null && unrealizedGainPct <= -config.stopLossPct) {
+    return `down ${(-unrealizedGainPct * 100).toFixed(1)}% (max drawdown ${(config.stopLossPct * 100).toFixed(0)}%)`;
+  }
+
+  if (config.stopLossPrice !== null && price <= config.stopLossPrice) {
+    return `at $${price.toFixed(2)} <= floor $${config.stopLossPrice.toFixed(2)}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Strategy: "Contrarian Fade"
+ *
+ * Early in the window the book often overreacts to the first BTC move and
+ * prices the leader near certainty while plenty of time remains. This buys
+ * the cheap underdog when the leader looks overpriced, betting on a reversal
+ * (or at least a re-pricing that the take-profit exit can capture).
+ *
+ * Config block "contrarian-fade":
+ *   minLeaderPrice   (0.85)  leader must be at or above this to count as overpriced
+ *   minEntryPrice    (0.05)  skip underdogs the book has written off
+ *   maxEntryPrice    (0.20)  never pay more than this for the underdog
+ *   entryWindowStart (8)     latest entry, in minutes remaining
+ *   entryWindowEnd   (13)    earliest entry, in minutes remaining
+ */
+
+import { ActiveMarket, getLeadingOutcome, isInEntryWindow } from "../market-discovery.js";
+import { TraderConfig } from "../config.js";
+import type { Strategy, TradeSignal } from "../strategy.js";
+import { evaluateStandardExit, getStrategyParams, planEntry } from "./common.js";
+
+const NAME = "contrarian-fade";
+
+interface ContrarianFadeParams {
+  minLeaderPrice: number;
+  minEntryPrice: number;
+  maxEntryPrice: number;
+  entryWindowStart: number;
+  entryWindowEnd: number;
+}
+
+function resolveParams(config: TraderConfig): ContrarianFadeParams {
+  const raw = getStrategyParams(config, NAME);
+  return {
+    minLeaderPrice: (raw.minLeaderPrice as number) ?? 0.85,
+    minEntryPrice: (raw.minEntryPrice as number) ?? 0.05,
+    maxEntryPrice: (raw.maxEntryPrice as number) ?? 0.20,
+    entryWindowStart: (raw.entryWindowStart as number) ?? 8,
+    entryWindowEnd: (raw.entryWindowEnd as number) ?? 13,
+  };
+}
+
+function evaluateEntry(market: ActiveMarket, config: TraderConfig): TradeSignal {
+  const params = resolveParams(config);
+
+  if (!isInEntryWindow(market, params.entryWindowStart, params.entryWindowEnd)) {
+    return {
+      signal: "WAIT",
+      reason: `Outside fade window: ${market.minutesRemaining.toFixed(1)}min remaining (window: ${params.entryWindowStart}-${params.entryWindowEnd}min)`,
+    };
+  }
+
+  const leader = getLeadingOutcome(market);
+  const underdog = market.outcomes.find((o) => o !== leader);
+  if (!leader || !underdog) {
+    return { signal: "WAIT", reason: "Need both outcomes priced" };
+  }
+
+  if (leader.price < params.minLeaderPrice) {
+    return {
+      signal: "WAIT",
+      reason: `Leader "${leader.outcome}" at $${leader.price.toFixed(2)} < fade threshold $${params.minLeaderPrice}`,
+    };
+  }
+
+  if (underdog.price < params.minEntryPrice || underdog.price > params.maxEntryPrice) {
+    return {
+      signal: "WAIT",
+      reason: `Underdog "${underdog.outcome}" at $${underdog.price.toFixed(2)} outside $${params.minEntryPrice}-$${params.maxEntryPrice}`,
+    };
+  }
+
+  const plan = planEntry(market, underdog, config);
+  if (typeof plan === "string") {
+    return { signal: "WAIT", reason: plan };
+  }
+
+  return {
+    signal: "BUY",
+    outcome: underdog,
+    reason: `Fade: leader "${leader.outcome}" at $${leader.price.toFixed(2)}, buying "${underdog.outcome}" at $${underdog.price.toFixed(2)} with ${market.minutesRemaining.toFixed(1)}min remaining`,
+    suggestedSize: plan.size,
+    suggestedPrice: plan.price,
+    orderType: plan.orderType,
+  };
+}
+
+export const contrarianFade: Strategy = {
+  name: NAME,
+  description: "Buy the cheap underdog when the leader looks overpriced early",
+  evaluateEntry,
+  evaluateExit: evaluateStandardExit,
+};
@@ -0,0 +1,34 @@
+/**
+ * Strategy registry. To add a strategy, implement the Strategy interface in
+ * its own file here and add it to STRATEGIES; select it with "strategy" in
+ * config.json and configure it under "strategies.<name>".
+ */
+
+import type { Strategy } from "../strategy.js";
+import { rideTheWave } from "./ride-the-wave.js";
+import { contrarianFade } from "./contrarian-fade.js";
+import { btcMomentum } from "./btc-momentum.js";
+
+const STRATEGIES: Record<string, Strategy> = {
+  [rideTheWave.name]: rideTheWave,
+  [contrarianFade.name]: contrarianFade,
+  [btcMomentum.name]: btcMomentum,
+};
+
+/**
+ * Look up a strategy by name. Throws for unknown names.
+ */
+export function getStrategy(name: string): Strategy {
+  const strategy = STRATEGIES[name];
+  if (!strategy) {
+    throw new Error(`Unknown strategy "${name}" (available: ${listStrategies().map((s) => s.name).join(", ")})`);
+  }
+  return strategy;
+}
+
+/**
+ * All registered strategies.
+ */
+export function listStrategies(): Strategy[] {
+  return Object.values(STRATEGIES);
+}
@@ -0,0 +1,100 @@
+/**
+ * Strategy: "Ride the Wave" (default)
+ *
+ * Core logic:
+ * 1. Wait until 5-10 minutes remain in the 15-min market
+ * 2. Identify the leading outcome (Up or Down)
+ * 3. If leading outcome price >= $0.60, BUY it
+ * 4. SELL early on take-profit, to lock in a gain in the last minute,
+ *    or on stop-loss (max drawdown / price floor)
+ * 5. Otherwise hold and cash out after resolution ($1.00 if correct, $0.00 if wrong)
+ *
+ * The thesis: by minute 5-10, BTC's direction is mostly baked in,
+ * so the $0.60+ leader is statistically likely to resolve correct.
+ *
+ * Config block "ride-the-wave": minEntryPrice, entryWindowStart, entryWindowEnd.
+ * Each falls back to the top-level config.json field of the same meaning.
+ * Kelly sizing uses the leader's spot-implied fair value as its win
+ * probability (the default, see strategy.ts).
+ */
+
+import { ActiveMarket, getLeadingOutcome, isInEntryWindow } from "../market-discovery.js";
+import { TraderConfig } from "../config.js";
+import type { Strategy, TradeSignal } from "../strategy.js";
+import { evaluateStandardExit, getStrategyParams, planEntry } from "./common.js";
+
+const NAME = "ride-the-wave";
+
+interface RideTheWaveParams {
+  minEntryPrice: number;
+  entryWindowStart: number;
+  entryWindowEnd: number;
+}
+
+function resolveParams(config: TraderConfig): RideTheWaveParams {
+  const raw = getStrategyParams(config, NAME);
+  return {
+    minEntryPrice: (raw.minEntryPrice as number) ?? config.minEntryPrice,
+    entryWindowStart: (raw.entryWindowStart as number) ?? config.entryWindowMinStart,
+    entryWindowEnd: (raw.entryWindowEnd as number) ?? config.entryWindowMinEnd,
+  };
+}
+
+/**
+ * Evaluate whether to enter a new position.
+ */
+function evaluateEntry(market: ActiveMarket, config: TraderConfig): TradeSignal {
+  const params = resolveParams(config);
+
+  // Must be in the entry window
+  if (!isInEntryWindow(market, params.entryWindowStart, params.entryWindowEnd)) {
+    const minRemaining = market.minutesRemaining.toFixed(1);
+    if (market.minutesRemaining > params.entryWindowEnd) {
+      return {
+        signal: "WAIT",
+        reason: `Too early: ${minRemaining}min remaining (window: ${params.entryWindowStart}-${params.entryWindowEnd}min)`,
+      };
+    }
+    return {
+      signal: "WAIT",
+      reason: `Too late: ${minRemaining}min remaining (window starts at ${params.entryWindowStart}min)`,
+    };
+  }
+
+  // Find the leading outcome
+  const leader = getLeadingOutcome(market);
+  if (!leader) {
+    return { signal: "WAIT", reason: "No outcomes available" };
+  }
+
+  // Leader must be above minimum entry price
+  if (leader.price < params.minEntryPrice) {
+    return {
+      signal: "WAIT",
+      reason: `Leading outcome "${leader.outcome}" at $${leader.price.toFixed(2)} < min entry $${params.minEntryPrice}`,
+    };
+  }
+
+  // Price and size the order: as many shares as max order size (and, for
+  // marketable orders, the book) allows
+  const plan = planEntry(market, leader, config);
+  if (typeof plan === "string") {
+    return { signal: "WAIT", reason: plan };
+  }
+
+  return {
+    signal: "BUY",
+    outcome: leader,
+    reason: `Entry signal: "${leader.outcome}" at $${leader.price.toFixed(2)} with ${market.minutesRemaining.toFixed(1)}min remaining`,
+    suggestedSize: plan.size,
+    suggestedPrice: plan.price,
+    orderType: plan.orderType,
+  };
+}
+
+export const rideTheWave: Strategy = {
+  name: NAME,
+  description: "Buy the $0.60+ leader mid-window and hold to resolution",
+  evaluateEntry,
+  evaluateExit: evaluateStandardExit,
+};
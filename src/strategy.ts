@@ -1,39 +1,61 @@
 /**
- * Trading strategy: "Ride the Wave"
+ * Strategy interface, signal types and dispatcher.
  *
- * Core logic:
- * 1. Wait until 5-10 minutes remain in the 15-min market
- * 2. Identify the leading outcome (Up or Down)
- * 3. If leading outcome price >= $0.60, BUY it
- * 4. Hold to resolution — never sell during an active market
- * 5. Cash out after market resolves ($1.00 if correct, $0.00 if wrong)
+ * Each strategy supplies an entry hook (should we buy, and what?) and an exit
+ * hook (should we sell a position it opened?). The active strategy is picked
+ * by name from config.json ("strategy"); see strategies/index.ts for the
+ * registry and the built-in strategies.
  *
- * The thesis: by minute 5-10, BTC's direction is mostly baked in,
- * so the $0.60+ leader is statistically likely to resolve correct.
+ * Every evaluation is annotated with the spot-implied fair value of both
+ * outcomes (see fair-value). With minEdge configured, a BUY is only passed through if the
+ * outcome's fair value exceeds its price by at least that much. A BUY that
+ * passes is then sized per config.sizing (see sizing).
  */
 
-import { ActiveMarket, MarketOutcome, getLeadingOutcome, isInEntryWindow } from "./market-discovery.js";
-import { TraderConfig } from "./config.js";
+import { ActiveMarket, MarketOutcome, getLeadingOutcome } from "./market-discovery.js";
+import { TimeInForce, TraderConfig } from "./config.js";
 import { getGuardrailState, PositionRecord } from "./guardrails.js";
+import { hasOpenOrder } from "./order-tracker.js";
+import type { ExitType } from "./trade-log.js";
+import { getStrategy } from "./strategies/index.js";
+import { computeFairValue, fairValueOf, FairValue } from "./fair-value.js";
+import { computeStake } from "./sizing.js";
 
-export type Signal = "BUY" | "HOLD" | "WAIT";
+export type Signal = "BUY" | "SELL" | "HOLD" | "WAIT";
 
 export interface TradeSignal {
   signal: Signal;
   outcome?: MarketOutcome;
   reason: string;
-  suggestedSize?: number;     // Number of shares to buy
-  suggestedPrice?: number;    // Price to pay per share
+  suggestedSize?: number;     // Number of shares to buy or sell
+  suggestedPrice?: number;    // Price per share
+  orderType?: TimeInForce;    // How the order is posted (default GTC)
+  winProbability?: number;    // Strategy's estimate that `outcome` wins (BUY); defaults to its fair value
   unrealizedGainPct?: number;
+  exitType?: ExitType;        // Set on SELL signals
+  strategy?: string;          // Name of the strategy that produced the signal
+  fairValue?: FairValue;      // Spot-implied fair value of both outcomes
+  edge?: number;              // Fair value minus price for `outcome` (or the leader)
+}
+
+export interface Strategy {
+  name: string;
+  description: string;
+  /** Decide whether to open a position in a market we don't hold. */
+  evaluateEntry(market: ActiveMarket, config: TraderConfig): TradeSignal | Promise<TradeSignal>;
+  /** Decide whether to exit a position this strategy opened. */
+  evaluateExit(market: ActiveMarket, position: PositionRecord, config: TraderConfig): TradeSignal | Promise<TradeSignal>;
 }
 
 /**
  * Evaluate the current market and produce a trade signal.
+ * Entries use the configured strategy; exits use the strategy that opened the
+ * position (falling back to the configured one for untagged positions).
  */
-export function evaluateMarket(
+export async function evaluateMarket(
   market: ActiveMarket,
   config: TraderConfig,
-): TradeSignal {
+): Promise<TradeSignal> {
   const guardrails = getGuardrailState();
 
   // Check if we already have a position in this market
@@ -42,86 +64,78 @@ export function evaluateMarket(
   );
 
   if (existingPosition) {
-    return evaluateExit(market, existingPosition, config);
+    if (hasOpenOrder(market.conditionId, "SELL")) {
+      return { signal: "HOLD", reason: "Exit order still working", strategy: existingPosition.strategy ?? config.strategy };
+    }
+    const strategy = getStrategy(existingPosition.strategy ?? config.strategy);
+    const signal = await strategy.evaluateExit(market, existingPosition, config);
+    return { ...signal, strategy: strategy.name };
+  }
+
+  if (market.closed) {
+    return { signal: "WAIT", reason: "Market is closed", strategy: config.strategy };
   }
 
-  return evaluateEntry(market, config);
+  const strategy = getStrategy(config.strategy);
+  const signal = await strategy.evaluateEntry(market, config);
+  const fairValue = await computeFairValue(market);
+  const filtered = applyEdgeFilter({ ...signal, strategy: strategy.name }, market, fairValue, config);
+  return applySizing(filtered, fairValue, config);
 }
 
 /**
- * Evaluate whether to enter a new position.
+ * Attach fair value and edge to a signal, and downgrade a BUY to WAIT when
+ * the required edge (config.minEdge) isn't there.
  */
-function evaluateEntry(market: ActiveMarket, config: TraderConfig): TradeSignal {
-  // Market must not be closed
-  if (market.closed) {
-    return { signal: "WAIT", reason: "Market is closed" };
-  }
+function applyEdgeFilter(
+  signal: TradeSignal,
+  market: ActiveMarket,
+  fairValue: FairValue | null,
+  config: TraderConfig,
+): TradeSignal {
+  const target = signal.outcome ?? getLeadingOutcome(market);
+  // Edge against what a BUY would pay (a marketable order pays past the midpoint)
+  const price = signal.signal === "BUY" && signal.suggestedPrice ? signal.suggestedPrice : target?.price;
+  const edge = fairValue && target && price !== undefined ? fairValueOf(fairValue, target.outcome) - price : undefined;
+  const annotated = { ...signal, fairValue: fairValue ?? undefined, edge };
 
-  // Must be in the entry window
-  if (!isInEntryWindow(market, config.entryWindowMinStart, config.entryWindowMinEnd)) {
-    const minRemaining = market.minutesRemaining.toFixed(1);
-    if (market.minutesRemaining > config.entryWindowMinEnd) {
-      return {
-        signal: "WAIT",
-        reason: `Too early: ${minRemaining}min remaining (window: ${config.entryWindowMinStart}-${config.entryWindowMinEnd}min)`,
-      };
-    }
-    return {
-      signal: "WAIT",
-      reason: `Too late: ${minRemaining}min remaining (window starts at ${config.entryWindowMinStart}min)`,
-    };
-  }
+  if (signal.signal !== "BUY" || config.minEdge === null) return annotated;
 
-  // Find the leading outcome
-  const leader = getLeadingOutcome(market);
-  if (!leader) {
-    return { signal: "WAIT", reason: "No outcomes available" };
+  if (edge === undefined) {
+    return { ...annotated, signal: "WAIT", reason: `Fair value unavailable — skipping entry (${signal.reason})` };
   }
-
-  // Leader must be above minimum entry price
-  if (leader.price < config.minEntryPrice) {
+  if (edge < config.minEdge) {
     return {
+      ...annotated,
       signal: "WAIT",
-      reason: `Leading outcome "${leader.outcome}" at $${leader.price.toFixed(2)} < min entry $${config.minEntryPrice}`,
+      reason: `Edge ${formatEdge(edge)} on "${target!.outcome}" < min ${formatEdge(config.minEdge)} (${signal.reason})`,
     };
   }
-
-  // Calculate position size: buy as many shares as max order size allows
-  const pricePerShare = leader.price;
-  const maxShares = Math.floor(config.maxOrderSize / pricePerShare);
-  if (maxShares <= 0) {
-    return { signal: "WAIT", reason: "Order size too small for current price" };
-  }
-
-  return {
-    signal: "BUY",
-    outcome: leader,
-    reason: `Entry signal: "${leader.outcome}" at $${pricePerShare.toFixed(2)} with ${market.minutesRemaining.toFixed(1)}min remaining`,
-    suggestedSize: maxShares,
-    suggestedPrice: pricePerShare,
-  };
+  return { ...annotated, reason: `${signal.reason}, edge ${formatEdge(edge)}` };
 }
 
 /**
- * Evaluate an existing position — always HOLD during the active market.
- * Cash-out happens separately after the market resolves (see trader-service).
+ * Size a BUY per config.sizing: shrink suggestedSize to the stake, or
+ * downgrade to WAIT when sizing says to skip the entry.
  */
-function evaluateExit(
-  market: ActiveMarket,
-  position: PositionRecord,
-  _config: TraderConfig,
-): TradeSignal {
-  const held = market.outcomes.find((o) => o.tokenId === position.tokenId);
-  if (!held) {
-    return { signal: "HOLD", reason: "Can't find current price for held position" };
+async function applySizing(signal: TradeSignal, fairValue: FairValue | null, config: TraderConfig): Promise<TradeSignal> {
+  if (signal.signal !== "BUY" || !signal.outcome || !signal.suggestedPrice || !signal.suggestedSize) return signal;
+
+  const price = signal.suggestedPrice;
+  const winProbability = signal.winProbability ?? (fairValue ? fairValueOf(fairValue, signal.outcome.outcome) : undefined);
+  const result = await computeStake(config, price, winProbability);
+  if (typeof result === "string") {
+    return { ...signal, signal: "WAIT", reason: `${result} (${signal.reason})` };
   }
 
-  const currentValue = held.price * position.size;
-  const unrealizedGainPct = (currentValue - position.costBasis) / position.costBasis;
+  const size = Math.min(signal.suggestedSize, Math.floor(result.stake / price));
+  if (size <= 0) {
+    return { ...signal, signal: "WAIT", reason: `Stake $${result.stake.toFixed(2)} buys no whole shares at $${price.toFixed(2)} (${signal.reason})` };
+  }
+  if (config.sizing.mode === "fixed" && size === signal.suggestedSize) return signal;
+  return { ...signal, suggestedSize: size, reason: `${signal.reason}, size ${size} (${result.basis})` };
+}
 
-  return {
-    signal: "HOLD",
-    reason: `Holding "${position.outcome}" at ${(unrealizedGainPct * 100).toFixed(1)}% unrealized — waiting for resolution`,
-    unrealizedGainPct,
-  };
+export function formatEdge(edge: number): string {
+  return `${edge >= 0 ? "+" : ""}${edge.toFixed(3)}`;
 }
@@ -1,12 +1,27 @@
 /**
  * Persistent trade log — append-only JSONL file.
- * Records two facts: what we bought, and how each market resolved.
- * Also used to prevent duplicate buys on restart.
+ * Records what we bought, what we sold early, and how each market resolved.
+ * Also used to prevent duplicate buys on restart and to compute
+ * realized PnL for the daily-loss guardrail.
  */
 
 import { appendFileSync, readFileSync, existsSync } from "fs";
+import { now } from "./clock.js";
+import { buildTradeResults } from "./performance.js";
 
-const LOG_FILE = "./trades.jsonl";
+export const LIVE_TRADE_LOG_FILE = "./trades.jsonl";
+
+let logFile = LIVE_TRADE_LOG_FILE;
+
+/**
+ * Point the log at another file (the backtester uses a scratch file so
+ * simulated trades never touch the live log). Returns the previous path.
+ */
+export function setTradeLogFile(path: string): string {
+  const previous = logFile;
+  logFile = path;
+  return previous;
+}
 
 export interface BuyEntry {
   type: "buy";
@@ -17,6 +32,25 @@ export interface BuyEntry {
   size: number;
   cost: number;
   orderId: string;
+  conditionId?: string;       // Added later — older entries lack these
+  tokenId?: string;
+  negRisk?: boolean;
+  strategy?: string;
+}
+
+export type ExitType = "take-profit" | "profit-lock" | "stop-loss";
+
+export interface SellEntry {
+  type: "sell";
+  time: string;
+  slug: string;
+  outcome: "Up" | "Down";
+  price: number;
+  size: number;
+  proceeds: number;
+  orderId: string;
+  exitType: ExitType;
+  reason: string;
 }
 
 export interface ResolutionEntry {
@@ -26,20 +60,55 @@ export interface ResolutionEntry {
   resolved: "Up" | "Down";
 }
 
+/**
+ * Written by the order tracker once a live order is done. Corrects the size
+ * and price of the buy/sell entry with the same orderId (see readTradeLog).
+ */
+export interface FillEntry {
+  type: "fill";
+  time: string;
+  slug: string;
+  orderId: string;
+  side: "buy" | "sell";
+  requestedSize: number;
+  filledSize: number;
+  avgPrice: number;
+  status: "filled" | "partial" | "unfilled";
+  note: string;
+}
+
+export type TradeLogEntry = BuyEntry | SellEntry | ResolutionEntry | FillEntry;
+
 /**
  * Append a buy entry to the log.
  */
 export function logBuy(data: Omit<BuyEntry, "type" | "time">): void {
-  const entry: BuyEntry = { type: "buy", time: new Date().toISOString(), ...data };
-  appendFileSync(LOG_FILE, JSON.stringify(entry) + "\n");
+  const entry: BuyEntry = { type: "buy", time: new Date(now()).toISOString(), ...data };
+  appendFileSync(logFile, JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Append a sell entry to the log.
+ */
+export function logSell(data: Omit<SellEntry, "type" | "time">): void {
+  const entry: SellEntry = { type: "sell", time: new Date(now()).toISOString(), ...data };
+  appendFileSync(logFile, JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Append a resolution entry to the log (or another trade log file).
+ */
+export function logResolution(slug: string, resolved: "Up" | "Down", file = logFile): void {
+  const entry: ResolutionEntry = { type: "resolution", time: new Date(now()).toISOString(), slug, resolved };
+  appendFileSync(file, JSON.stringify(entry) + "\n");
 }
 
 /**
- * Append a resolution entry to the log.
+ * Append a fill correction entry to the log.
  */
-export function logResolution(slug: string, resolved: "Up" | "Down"): void {
-  const entry: ResolutionEntry = { type: "resolution", time: new Date().toISOString(), slug, resolved };
-  appendFileSync(LOG_FILE, JSON.stringify(entry) + "\n");
+export function logFill(data: Omit<FillEntry, "type" | "time">): void {
+  const entry: FillEntry = { type: "fill", time: new Date(now()).toISOString(), ...data };
+  appendFileSync(logFile, JSON.stringify(entry) + "\n");
 }
 
 /**
@@ -50,21 +119,65 @@ export function hasBoughtSlug(slug: string): boolean {
 }
 
 /**
- * Check if we already logged resolution for a slug.
+ * Check if we already logged resolution for a slug (in the log or another
+ * trade log file).
  */
-export function hasResolution(slug: string): boolean {
-  return hasEntry("resolution", slug);
+export function hasResolution(slug: string, file = logFile): boolean {
+  return hasEntry("resolution", slug, file);
 }
 
-function hasEntry(type: string, slug: string): boolean {
-  if (!existsSync(LOG_FILE)) return false;
+/**
+ * Read every entry in the log (or another trade log file), oldest first.
+ * Malformed lines are skipped. Buy and sell entries are returned with any
+ * later fill correction applied, so their size/price/cost reflect what
+ * actually matched (a buy that never filled comes back with size 0).
+ */
+export function readTradeLog(file = logFile): TradeLogEntry[] {
+  if (!existsSync(file)) return [];
+  const entries: TradeLogEntry[] = [];
   try {
-    const lines = readFileSync(LOG_FILE, "utf-8").trim().split("\n");
-    for (let i = lines.length - 1; i >= 0; i--) {
-      if (!lines[i]) continue;
-      const entry = JSON.parse(lines[i]);
-      if (entry.type === type && entry.slug === slug) return true;
+    const lines = readFileSync(file, "utf-8").trim().split("\n");
+    for (const line of lines) {
+      if (!line) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {}
     }
   } catch {}
+
+  const fills = new Map<string, FillEntry>();
+  for (const e of entries) {
+    if (e.type === "fill") fills.set(e.orderId, e);
+  }
+  if (fills.size === 0) return entries;
+
+  return entries.map((e) => {
+    if (e.type !== "buy" && e.type !== "sell") return e;
+    const fill = fills.get(e.orderId);
+    if (!fill) return e;
+    const amount = fill.filledSize * fill.avgPrice;
+    return e.type === "buy"
+      ? { ...e, size: fill.filledSize, price: fill.avgPrice, cost: amount }
+      : { ...e, size: fill.filledSize, price: fill.avgPrice, proceeds: amount };
+  });
+}
+
+/**
+ * Realized PnL (USDC) of buys placed at or after `sinceMs`.
+ * Sell proceeds count immediately; shares still held count once the market
+ * resolves (a winning share pays $1.00, a losing share pays nothing).
+ * A buy with neither a sell nor a resolution is not yet realized.
+ */
+export function getRealizedPnlSince(sinceMs: number): number {
+  return buildTradeResults(readTradeLog())
+    .filter((r) => r.entryTime >= sinceMs)
+    .reduce((sum, r) => sum + r.pnl, 0);
+}
+
+function hasEntry(type: string, slug: string, file = logFile): boolean {
+  const entries = readTradeLog(file);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].type === type && entries[i].slug === slug) return true;
+  }
   return false;
 }
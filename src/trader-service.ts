@@ -2,120 +2,354 @@
  * Background trader service — the heartbeat of the bot.
  *
  * Ticks every N seconds (default 30). On each tick:
- * 1. Discover the current active 15-min BTC market
- * 2. Evaluate the strategy (BUY / HOLD / WAIT)
- * 3. Execute if signal is actionable
+ * 0. Poll working orders for fills (see order-tracker)
+ * Then for each configured market series, in turn:
+ * 1. Discover the series' current active market
+ * 2. Evaluate the strategy (BUY / SELL / HOLD / WAIT)
+ * 3. Execute if signal is actionable (entries are skipped while paused)
  * 4. Log everything
+ *
+ * With streaming enabled (see market-stream), a series is also evaluated
+ * (steps 1-4) whenever its order book changes, at most once per debounceMs,
+ * and the full tick slows to a heartbeat every heartbeatSec. If the stream
+ * drops, ticks go back to tickIntervalSec over REST until it reconnects.
+ * Ticks and evaluations never overlap.
+ *
+ * The service also owns the runtime controls used by the control API:
+ * pause/resume and switching between live and paper trading.
  */
 
 import { TraderConfig } from "./config.js";
 import { discoverCurrentMarket, ActiveMarket } from "./market-discovery.js";
-import { evaluateMarket, TradeSignal } from "./strategy.js";
-import { executeBuy } from "./executor.js";
-import { activateKillswitch } from "./guardrails.js";
+import type { MarketSeries } from "./market-series.js";
+import { evaluateMarket, formatEdge, TradeSignal } from "./strategy.js";
+import { executeBuy, executeSell } from "./executor.js";
+import { getTrackedOrders, loadTrackedOrders, pollOrders } from "./order-tracker.js";
+import { recordMarket } from "./recorder.js";
+import { getPaperBalance, settlePaperPositions } from "./paper-trader.js";
+import { activateKillswitch, getOpenExposure, loadGuardrailState, resetGuardrailState, setGuardrailStateFile } from "./guardrails.js";
+import { setTradeLogFile } from "./trade-log.js";
 import { getClient, isClientReady } from "./client.js";
+import { timeCall, setGauge, incCounter, markTickSuccess } from "./metrics.js";
+import { notify } from "./notifier.js";
+import { startMarketStream, stopMarketStream, watchMarket } from "./market-stream.js";
+import type { Logger } from "./logger.js";
 
 export interface TickResult {
   timestamp: string;
+  series: string;             // Market series id
   market: ActiveMarket | null;
   signal: TradeSignal | null;
   execution: { success: boolean; message: string } | null;
   error?: string;
 }
 
-type Logger = (...args: any[]) => void;
-
 let tickTimer: ReturnType<typeof setInterval> | null = null;
 let isRunning = false;
 let tickCount = 0;
+let paused = false;
+let consecutiveErrors = 0;
+let lastTicks: TickResult[] = [];
+let liveLedger: { tradeLog: string; stateFile: string | null } | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+const pendingEvaluations = new Map<string, ReturnType<typeof setTimeout>>(); // Series id -> debounce timer
+
+export interface ServiceStatus {
+  running: boolean;
+  paused: boolean;
+  tickCount: number;
+  lastTicks: TickResult[];    // One per series
+}
+
+/**
+ * Run a single strategy tick over every configured series, or an
+ * event-driven evaluation of just `only` (which skips step 0).
+ */
+export async function tick(config: TraderConfig, logger: Logger, only?: MarketSeries): Promise<TickResult[]> {
+  const tickNo = ++tickCount;
+  let results: TickResult[];
+
+  try {
+    // 0. Settle fills / cancel stale remainders on orders from earlier ticks
+    //    (paper mode: settle ended markets into the virtual balance)
+    if (only) {
+      // Event-driven: leave order upkeep to the regular ticks
+    } else if (config.dryRun) {
+      await settlePaperPositions(config.paper, config.series, logger.child("paper"));
+    } else {
+      await pollOrders(config, logger.child("orders"));
+    }
+
+    results = [];
+    for (const series of only ? [only] : config.series) {
+      results.push(await tickSeries(series, tickNo, !!only, config, logger));
+    }
+  } catch (err: any) {
+    const error = handleTickError(err, tickNo, undefined, logger);
+    results = (only ? [only] : config.series).map((series) => ({ ...emptyResult(series), error }));
+  }
+
+  incCounter("ticks_total");
+  setGauge("open_exposure_usdc", getOpenExposure());
+  const error = results.find((r) => r.error)?.error;
+  if (error) {
+    incCounter("tick_errors_total");
+    consecutiveErrors++;
+    if (consecutiveErrors === config.notifications.errorThreshold) {
+      notify("error", `${consecutiveErrors} consecutive tick errors`, `Latest: ${error}`);
+    }
+  } else {
+    markTickSuccess();
+    consecutiveErrors = 0;
+  }
+  lastTicks = only ? [...lastTicks.filter((r) => r.series !== only.id), ...results] : results;
+  return results;
+}
 
 /**
- * Run a single strategy tick.
+ * Discover, evaluate and trade one series' current market. Event-driven
+ * evaluations skip the recorder and balance lookup, and log HOLD/WAIT at
+ * debug level since they run up to once a second.
  */
-export async function tick(config: TraderConfig, logger: Logger): Promise<TickResult> {
-  const result: TickResult = {
-    timestamp: new Date().toISOString(),
-    market: null,
-    signal: null,
-    execution: null,
-  };
+async function tickSeries(
+  series: MarketSeries,
+  tickNo: number,
+  eventDriven: boolean,
+  config: TraderConfig,
+  logger: Logger,
+): Promise<TickResult> {
+  const result = emptyResult(series);
 
   try {
     // 1. Discover the current active market
-    result.market = await discoverCurrentMarket();
+    result.market = await discoverCurrentMarket(series);
     if (!result.market) {
-      logger(`[tick #${++tickCount}] No active BTC 15m market found`);
+      logger.info(`[tick #${tickNo}] No active ${series.id} market found`, { tick: tickNo, series: series.id });
       return result;
     }
 
     if (result.market.closed) {
-      logger(`[tick #${++tickCount}] Market ${result.market.slug} is closed`);
+      logger.info(`[tick #${tickNo}] Market ${result.market.slug} is closed`, { tick: tickNo, slug: result.market.slug });
       return result;
     }
 
+    if (config.stream.enabled) watchMarket(result.market);
+
+    // Record a market data snapshot in the background (never throws)
+    if (config.recorder.enabled && !eventDriven) {
+      recordMarket(result.market, config.recorder, logger.child("recorder"));
+    }
+
     // 2. Evaluate strategy
-    result.signal = evaluateMarket(result.market, config);
+    result.signal = await evaluateMarket(result.market, config);
+    incCounter("signals_total", { signal: result.signal.signal });
 
     const mkt = result.market;
     const sig = result.signal;
     const pricesStr = mkt.outcomes.map((o) => `${o.outcome}=$${o.price.toFixed(2)}`).join(" ");
     const timeStr = `${mkt.minutesRemaining.toFixed(1)}min left`;
+    const fvStr = sig.fairValue
+      ? ` | FV Up=$${sig.fairValue.up.toFixed(2)} Down=$${sig.fairValue.down.toFixed(2)}${sig.edge !== undefined ? ` edge ${formatEdge(sig.edge)}` : ""}`
+      : "";
 
     let balanceStr = "";
-    if (isClientReady()) {
+    let balance: number | undefined;
+    if (config.dryRun) {
+      balance = getPaperBalance(config.paper);
+      balanceStr = ` | Paper bal: $${balance.toFixed(2)}`;
+    } else if (isClientReady() && !eventDriven) {
       try {
-        const bal = await getClient().getBalanceAllowance({ asset_type: "COLLATERAL" as any });
-        balanceStr = ` | Bal: $${(parseFloat(bal.balance) / 1e6).toFixed(2)}`;
+        const bal = await timeCall("clob", "getBalanceAllowance", () => getClient().getBalanceAllowance({ asset_type: "COLLATERAL" as any }));
+        balance = parseFloat(bal.balance) / 1e6;
+        balanceStr = ` | Bal: $${balance.toFixed(2)}`;
       } catch {}
     }
+    if (balance !== undefined) setGauge("usdc_balance", balance);
 
-    logger(`[tick #${++tickCount}] ${mkt.slug} | ${pricesStr} | ${timeStr}${balanceStr} | ${sig.signal}: ${sig.reason}`);
+    const quiet = eventDriven && (sig.signal === "HOLD" || sig.signal === "WAIT");
+    logger[quiet ? "debug" : "info"](`[tick #${tickNo}] ${mkt.slug} | ${pricesStr}${fvStr} | ${timeStr}${balanceStr} | ${sig.signal}: ${sig.reason}`, {
+      tick: tickNo,
+      slug: mkt.slug,
+      signal: sig.signal,
+      outcome: sig.outcome?.outcome,
+      edge: sig.edge,
+    });
 
     // 3. Execute if actionable
-    if (sig.signal === "BUY") {
-      result.execution = await executeBuy(sig, mkt, config, logger);
+    if (sig.signal === "BUY" && paused) {
+      logger.info("Paused — entry skipped", { slug: mkt.slug });
+    } else if (sig.signal === "BUY") {
+      result.execution = await executeBuy(sig, mkt, config, logger.child("executor"));
+    } else if (sig.signal === "SELL") {
+      result.execution = await executeSell(sig, mkt, config, logger.child("executor"));
     }
 
     if (result.execution && !result.execution.success) {
-      logger(`[EXEC FAIL] ${result.execution.message}`);
+      logger.warn(`[EXEC FAIL] ${result.execution.message}`, { slug: mkt.slug, signal: sig.signal });
     }
   } catch (err: any) {
-    const errMsg = err.message || String(err);
-    result.error = errMsg;
-    logger(`[tick ERROR] ${errMsg}`);
-
-    // If we're getting repeated errors, activate killswitch
-    if (errMsg.includes("insufficient") || errMsg.includes("balance")) {
-      activateKillswitch(`Balance error: ${errMsg}`);
-      logger("[KILLSWITCH] Activated due to balance error");
-    }
+    result.error = handleTickError(err, tickNo, result.market?.slug, logger);
   }
-
   return result;
 }
 
+/**
+ * Run ticks one at a time, so a book event never evaluates while a tick
+ * (or another evaluation) is mid-way through trading.
+ */
+function exclusive<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Evaluate a series after a book update, at most once per debounceMs.
+ * Updates arriving in the meantime fold into the pending evaluation.
+ */
+function scheduleEvaluation(seriesId: string, config: TraderConfig, logger: Logger): void {
+  if (pendingEvaluations.has(seriesId) || !isRunning) return;
+  const series = config.series.find((s) => s.id === seriesId);
+  if (!series) return;
+
+  pendingEvaluations.set(seriesId, setTimeout(() => {
+    pendingEvaluations.delete(seriesId);
+    if (isRunning) exclusive(() => tick(config, logger, series));
+  }, config.stream.debounceMs));
+}
+
+/**
+ * (Re)start the recurring full tick.
+ */
+function scheduleTicks(intervalSec: number, config: TraderConfig, logger: Logger): void {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = setInterval(() => {
+    exclusive(() => tick(config, logger));
+  }, intervalSec * 1000);
+}
+
+function emptyResult(series: MarketSeries): TickResult {
+  return { timestamp: new Date().toISOString(), series: series.id, market: null, signal: null, execution: null };
+}
+
+/**
+ * Log a tick error, tripping the killswitch on balance errors. Returns the message.
+ */
+function handleTickError(err: any, tickNo: number, slug: string | undefined, logger: Logger): string {
+  const errMsg = err.message || String(err);
+  logger.error(`[tick ERROR] ${errMsg}`, { tick: tickNo, slug });
+
+  // If we're getting repeated errors, activate killswitch
+  if (errMsg.includes("insufficient") || errMsg.includes("balance")) {
+    activateKillswitch(`Balance error: ${errMsg}`);
+    logger.error("[KILLSWITCH] Activated due to balance error");
+  }
+  return errMsg;
+}
+
+/**
+ * Point the trade log and guardrail state at the ledger for the current
+ * mode (paper ledger in dry-run, trades.jsonl when live), then reload
+ * guardrail state from it and, when live, the working orders to track.
+ * Called at startup and when dry-run is toggled.
+ */
+export function applyTradingMode(config: TraderConfig, logger: Logger): void {
+  if (config.dryRun) {
+    const tradeLog = setTradeLogFile(config.paper.ledgerFile);
+    const stateFile = setGuardrailStateFile(config.paper.stateFile);
+    liveLedger ??= { tradeLog, stateFile };
+  } else if (liveLedger) {
+    setTradeLogFile(liveLedger.tradeLog);
+    setGuardrailStateFile(liveLedger.stateFile);
+    liveLedger = null;
+  }
+  resetGuardrailState();
+  loadGuardrailState(logger.child("guardrails"));
+  // Orders are only tracked in live mode (switching to paper waits for them to settle)
+  if (!config.dryRun) loadTrackedOrders(logger.child("orders"));
+}
+
+/**
+ * Switch between live and paper trading at runtime. Refuses to go to paper
+ * while live orders are still being tracked, since they would stop being
+ * polled. Returns an error message, or null on success.
+ */
+export function setDryRun(config: TraderConfig, dryRun: boolean, logger: Logger): string | null {
+  if (config.dryRun === dryRun) return null;
+  if (dryRun && getTrackedOrders().length > 0) {
+    return `${getTrackedOrders().length} live order(s) still working — try again once they settle`;
+  }
+  if (!dryRun && !isClientReady()) {
+    return "Client not initialized";
+  }
+  config.dryRun = dryRun;
+  logger.warn(`Switched to ${dryRun ? "DRY RUN (paper trading)" : "LIVE TRADING"}`);
+  applyTradingMode(config, logger);
+  return null;
+}
+
+/**
+ * Pause new entries. Ticks keep running so open positions are still
+ * exited and orders still settled.
+ */
+export function pauseService(logger: Logger): void {
+  if (paused) return;
+  paused = true;
+  logger.info("Paused — no new entries until resumed");
+}
+
+/**
+ * Resume new entries after pauseService().
+ */
+export function resumeService(logger: Logger): void {
+  if (!paused) return;
+  paused = false;
+  logger.info("Resumed");
+}
+
+/**
+ * Current loop state and the results of the most recent tick.
+ */
+export function getServiceStatus(): ServiceStatus {
+  return { running: isRunning, paused, tickCount, lastTicks };
+}
+
 /**
  * Start the background trading loop.
  */
 export function startService(config: TraderConfig, logger: Logger): void {
   if (isRunning) {
-    logger("[service] Already running");
+    logger.warn("Already running");
     return;
   }
 
   isRunning = true;
   tickCount = 0;
-  const intervalMs = config.tickIntervalSec * 1000;
 
-  logger(`[service] Starting trader service (tick every ${config.tickIntervalSec}s, dryRun=${config.dryRun}, enabled=${config.enabled})`);
+  logger.info(`Starting trader service (series=${config.series.map((s) => s.id).join(",")}, strategy=${config.strategy}, tick every ${config.tickIntervalSec}s, stream=${config.stream.enabled}, dryRun=${config.dryRun}, enabled=${config.enabled})`);
+
+  if (config.stream.enabled) {
+    startMarketStream(config.stream, config.series, {
+      onBookUpdate: (_tokenId, seriesId) => scheduleEvaluation(seriesId, config, logger),
+      onStatus: (connected) => {
+        if (!isRunning) return;
+        if (connected) {
+          logger.info(`Market stream up — evaluating on book updates, full tick every ${config.stream.heartbeatSec}s`);
+          scheduleTicks(config.stream.heartbeatSec, config, logger);
+        } else {
+          logger.warn(`Market stream down — polling every ${config.tickIntervalSec}s until it reconnects`);
+          scheduleTicks(config.tickIntervalSec, config, logger);
+          exclusive(() => tick(config, logger));
+        }
+      },
+    }, logger.child("stream"));
+  }
 
-  // Run first tick immediately
-  tick(config, logger);
+  // Run first tick immediately (this also subscribes the stream to the current markets)
+  exclusive(() => tick(config, logger));
 
-  // Then schedule recurring ticks
-  tickTimer = setInterval(() => {
-    tick(config, logger);
-  }, intervalMs);
+  // Then schedule recurring ticks (REST polling until the stream connects)
+  scheduleTicks(config.tickIntervalSec, config, logger);
 }
 
 /**
@@ -126,6 +360,9 @@ export function stopService(logger: Logger): void {
     clearInterval(tickTimer);
     tickTimer = null;
   }
+  for (const timer of pendingEvaluations.values()) clearTimeout(timer);
+  pendingEvaluations.clear();
+  stopMarketStream();
   isRunning = false;
-  logger("[service] Trader service stopped");
+  logger.info("Trader service stopped");
 }
@@ -0,0 +1,200 @@
+/**
+ * Sending Polygon transactions: EIP-1559 fees, gas estimates, local nonce
+ * tracking and replacement of stuck transactions.
+ *
+ * Fees: the priority fee is the node's suggestion clamped to
+ * [minPriorityFeeGwei, maxPriorityFeeGwei]; the max fee is twice the latest
+ * base fee plus the priority fee, capped at maxFeeGwei. The gas limit is the
+ * node's estimate times gasLimitMultiplier, so a call that would revert
+ * fails here instead of on-chain. If the node can't estimate for any other
+ * reason (an RPC error or timeout), fallbackGasLimit is used instead.
+ *
+ * Nonces are handed out locally under a lock — the higher of the node's
+ * pending count and one past the last nonce used — so overlapping senders in
+ * this process never reuse one, even when the RPC's pending count lags.
+ *
+ * A tx with no receipt after replaceAfterBlocks blocks is re-sent at the
+ * same nonce with fees bumped by feeBumpPct, up to maxReplacements times;
+ * whichever version gets mined wins.
+ *
+ * Nothing here is Polygon-specific beyond the defaults, so it runs against
+ * a local Anvil or Hardhat node via POLYGON_RPC_URL.
+ */
+
+import { ethers } from "ethers";
+import { GasConfig } from "./config.js";
+import { timeCall } from "./metrics.js";
+import type { Logger } from "./logger.js";
+
+export interface Fees {
+  maxFeePerGas: ethers.BigNumber;
+  maxPriorityFeePerGas: ethers.BigNumber;
+}
+
+export interface SendResult {
+  receipt: ethers.providers.TransactionReceipt | null; // null = none of the versions mined in time
+  txHash: string;             // The mined version, or the latest one sent
+  txHashes: string[];         // Every version sent, oldest first
+}
+
+const nextNonces = new Map<string, number>(); // Address -> next nonce to use
+let nonceLock: Promise<unknown> = Promise.resolve();
+
+const gwei = (n: number) => ethers.utils.parseUnits(String(n), "gwei");
+
+/**
+ * Current EIP-1559 fees within the configured caps.
+ */
+export async function estimateFees(provider: ethers.providers.JsonRpcProvider, gas: GasConfig): Promise<Fees> {
+  const block = await timeCall("rpc", "getBlock", () => provider.getBlock("latest"));
+  const baseFee = block.baseFeePerGas ?? ethers.BigNumber.from(0);
+
+  let suggested = gwei(gas.minPriorityFeeGwei);
+  try {
+    suggested = ethers.BigNumber.from(await timeCall("rpc", "maxPriorityFeePerGas", () => provider.send("eth_maxPriorityFeePerGas", [])));
+  } catch {
+    // Node doesn't support it — use the floor
+  }
+  const priority = clamp(suggested, gwei(gas.minPriorityFeeGwei), gwei(gas.maxPriorityFeeGwei));
+  const maxFee = min(baseFee.mul(2).add(priority), gwei(gas.maxFeeGwei));
+  return { maxFeePerGas: maxFee, maxPriorityFeePerGas: min(priority, maxFee) };
+}
+
+/**
+ * Send a transaction and wait for it, replacing it with higher fees while
+ * it's stuck. `onSent` is called with each version's hash as it goes out,
+ * so callers can persist it before waiting. Throws if the call would revert
+ * or the first send fails.
+ */
+export async function sendTransaction(
+  wallet: ethers.Wallet,
+  request: ethers.providers.TransactionRequest,
+  gas: GasConfig,
+  logger: Logger,
+  onSent?: (txHash: string) => void,
+): Promise<SendResult> {
+  const provider = wallet.provider as ethers.providers.JsonRpcProvider;
+  const gasLimit = await estimateGasLimit(wallet, request, gas, logger);
+  let fees = await estimateFees(provider, gas);
+  if (fees.maxFeePerGas.eq(gwei(gas.maxFeeGwei))) {
+    logger.warn(`Max fee capped at ${gas.maxFeeGwei} gwei — tx may be slow to confirm`);
+  }
+
+  const first = await withNonce(wallet, (nonce) => signAndSend(wallet, { ...request, gasLimit, nonce, type: 2, ...fees }));
+  const nonce = first.nonce;
+  const txHashes = [first.hash];
+  onSent?.(first.hash);
+
+  let replacements = 0;
+  let sentAtBlock = await provider.getBlockNumber();
+  for (;;) {
+    await sleep(gas.pollIntervalMs);
+
+    for (const hash of txHashes) {
+      const receipt = await provider.getTransactionReceipt(hash).catch(() => null);
+      if (receipt && receipt.blockNumber) return { receipt, txHash: hash, txHashes };
+    }
+
+    const blockNumber = await provider.getBlockNumber().catch(() => sentAtBlock);
+    if (blockNumber - sentAtBlock < gas.replaceAfterBlocks) continue;
+    if (replacements >= gas.maxReplacements) {
+      return { receipt: null, txHash: txHashes[txHashes.length - 1], txHashes };
+    }
+
+    const bumped = bumpFees(fees, gas);
+    replacements++;
+    sentAtBlock = blockNumber;
+    if (!bumped) {
+      logger.warn(`Tx ${txHashes[txHashes.length - 1]} stuck, but a bumped fee would exceed ${gas.maxFeeGwei} gwei — still waiting`, { nonce });
+      continue;
+    }
+    fees = bumped;
+    try {
+      const tx = await signAndSend(wallet, { ...request, gasLimit, nonce, type: 2, ...fees });
+      txHashes.push(tx.hash);
+      onSent?.(tx.hash);
+      logger.warn(`Tx ${txHashes[txHashes.length - 2]} stuck for ${gas.replaceAfterBlocks} blocks — replaced by ${tx.hash} at ${ethers.utils.formatUnits(fees.maxFeePerGas, "gwei")} gwei (${replacements}/${gas.maxReplacements})`, { txHash: tx.hash, nonce });
+    } catch (err: any) {
+      // "nonce too low": an earlier version was just mined — the next poll finds it
+      const reason = err.reason || err.error?.message || err.message || String(err);
+      logger.warn(`Replacement at nonce ${nonce} not sent: ${reason}`, { nonce });
+    }
+  }
+}
+
+/**
+ * The node's gas estimate with gasLimitMultiplier headroom. Throws if the
+ * call would revert; falls back to fallbackGasLimit if the estimate fails
+ * for any other reason.
+ */
+async function estimateGasLimit(
+  wallet: ethers.Wallet,
+  request: ethers.providers.TransactionRequest,
+  gas: GasConfig,
+  logger: Logger,
+): Promise<ethers.BigNumber> {
+  try {
+    const estimate = await timeCall("rpc", "estimateGas", () => wallet.estimateGas(request));
+    return estimate.mul(Math.round(gas.gasLimitMultiplier * 100)).div(100);
+  } catch (err: any) {
+    if (isRevert(err)) throw err;
+    const reason = err.reason || err.error?.message || err.message || String(err);
+    logger.warn(`Gas estimate failed (${reason}) — using fallback limit ${gas.fallbackGasLimit}`);
+    return ethers.BigNumber.from(gas.fallbackGasLimit);
+  }
+}
+
+function isRevert(err: any): boolean {
+  if (err.code === ethers.errors.CALL_EXCEPTION || err.code === ethers.errors.UNPREDICTABLE_GAS_LIMIT) return true;
+  return /revert/i.test(err.error?.message || err.message || "");
+}
+
+/**
+ * Run `send` with this wallet's next nonce, under a lock so concurrent
+ * senders get distinct nonces in order. A failed send forgets the local
+ * nonce so the next one is re-read from the chain.
+ */
+async function withNonce<T>(wallet: ethers.Wallet, send: (nonce: number) => Promise<T>): Promise<T> {
+  const run = nonceLock.then(async () => {
+    const address = wallet.address.toLowerCase();
+    const pending = await timeCall("rpc", "getTransactionCount", () => wallet.getTransactionCount("pending"));
+    const nonce = Math.max(pending, nextNonces.get(address) ?? 0);
+    try {
+      const result = await send(nonce);
+      nextNonces.set(address, nonce + 1);
+      return result;
+    } catch (err) {
+      nextNonces.delete(address);
+      throw err;
+    }
+  });
+  nonceLock = run.catch(() => {});
+  return run;
+}
+
+async function signAndSend(wallet: ethers.Wallet, request: ethers.providers.TransactionRequest): Promise<ethers.providers.TransactionResponse> {
+  return timeCall("rpc", "sendTransaction", () => wallet.sendTransaction(request));
+}
+
+/**
+ * Raise both fees by feeBumpPct (nodes require at least 10% to accept a
+ * replacement). Returns null if that would take the max fee past maxFeeGwei.
+ */
+function bumpFees(fees: Fees, gas: GasConfig): Fees | null {
+  const bump = (x: ethers.BigNumber) => x.mul(Math.round((1 + gas.feeBumpPct) * 100)).div(100).add(1);
+  const maxFeePerGas = bump(fees.maxFeePerGas);
+  if (maxFeePerGas.gt(gwei(gas.maxFeeGwei))) return null;
+  return { maxFeePerGas, maxPriorityFeePerGas: min(bump(fees.maxPriorityFeePerGas), maxFeePerGas) };
+}
+
+function clamp(x: ethers.BigNumber, lo: ethers.BigNumber, hi: ethers.BigNumber): ethers.BigNumber {
+  return x.lt(lo) ? lo : x.gt(hi) ? hi : x;
+}
+
+function min(a: ethers.BigNumber, b: ethers.BigNumber): ethers.BigNumber {
+  return a.lt(b) ? a : b;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
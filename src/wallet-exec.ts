@@ -0,0 +1,133 @@
+/**
+ * Executing contract calls from the trading wallet, whatever kind it is.
+ * Both redemptions (redeemer) and token approvals (approvals) go through
+ * here.
+ *
+ * config.signatureType picks the path:
+ *   - 0 (EOA):   the signer holds the funds and sends each call directly, one
+ *                transaction per call
+ *   - 1 (proxy): calls go through the Polymarket proxy wallet factory's
+ *                proxy(calls), batched into one transaction
+ *   - 2 (Safe):  the signer, as owner of a 1-of-1 Gnosis Safe, calls the
+ *                Safe's execTransaction — directly for one call, or as a
+ *                delegatecall to MultiSendCallOnly for a batch
+ *
+ * A Safe transaction is authorized with a pre-validated signature (the
+ * owner's address with v = 1), which the Safe accepts when that owner is
+ * msg.sender — no off-chain signing or Safe nonce lookup needed. With
+ * safeTxGas and gasPrice at zero, a failing inner call reverts the whole
+ * transaction, so a revert looks the same on every path.
+ *
+ * Transactions are sent through tx-sender (fees, nonces, replacement).
+ */
+
+import { ethers } from "ethers";
+import { TraderConfig } from "./config.js";
+import { sendTransaction, SendResult } from "./tx-sender.js";
+import type { Logger } from "./logger.js";
+
+export interface WalletCall {
+  to: string;
+  data: string;
+}
+
+// Polygon contract addresses
+const PROXY_WALLET_FACTORY = "0xaB45c5A4B0c941a2F231C04C3f49182e1A254052";
+const MULTI_SEND_CALL_ONLY = "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D"; // Safe v1.3.0
+
+const PROXY_FACTORY_ABI = [
+  "function proxy(tuple(address to, string typeCode, bytes data, string value)[] calls) external",
+];
+
+const SAFE_ABI = [
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)",
+];
+
+const MULTI_SEND_ABI = ["function multiSend(bytes transactions) payable"];
+
+const SAFE_CALL = 0;
+const SAFE_DELEGATECALL = 1;
+
+/**
+ * The private key's wallet, connected to POLYGON_RPC_URL (default: the
+ * public Polygon RPC).
+ */
+export function connectSigner(config: TraderConfig): ethers.Wallet {
+  const rpcUrl = process.env.POLYGON_RPC_URL || "https://polygon-rpc.com";
+  return new ethers.Wallet(config.privateKey, new ethers.providers.JsonRpcProvider(rpcUrl));
+}
+
+/**
+ * The address that holds the wallet's USDC and outcome tokens: the signer
+ * itself for an EOA, else the proxy or Safe (funderAddress).
+ */
+export function holderAddress(config: TraderConfig, signer: ethers.Wallet): string {
+  return config.signatureType === 0 ? signer.address : config.funderAddress;
+}
+
+/**
+ * How many calls fit in one transaction on this wallet's path.
+ */
+export function maxCallsPerTx(config: TraderConfig): number {
+  return config.signatureType === 0 ? 1 : Infinity;
+}
+
+/**
+ * Execute `calls` in one transaction from the configured wallet. An EOA can
+ * only make one call per transaction (see maxCallsPerTx). Throws like
+ * sendTransaction.
+ */
+export async function executeCalls(
+  config: TraderConfig,
+  signer: ethers.Wallet,
+  calls: WalletCall[],
+  logger: Logger,
+  onSent?: (txHash: string) => void,
+): Promise<SendResult> {
+  if (calls.length === 0) throw new Error("No calls to execute");
+  if (calls.length > maxCallsPerTx(config)) {
+    throw new Error(`Signature type ${config.signatureType} wallets can't batch ${calls.length} calls`);
+  }
+  return sendTransaction(signer, buildTransaction(config, signer, calls), config.gas, logger, onSent);
+}
+
+function buildTransaction(config: TraderConfig, signer: ethers.Wallet, calls: WalletCall[]): ethers.providers.TransactionRequest {
+  switch (config.signatureType) {
+    case 0:
+      return { to: calls[0].to, data: calls[0].data };
+    case 1: {
+      const iface = new ethers.utils.Interface(PROXY_FACTORY_ABI);
+      const proxyCalls = calls.map((c) => ({ to: c.to, typeCode: "1", data: c.data, value: "0" }));
+      return { to: PROXY_WALLET_FACTORY, data: iface.encodeFunctionData("proxy", [proxyCalls]) };
+    }
+    case 2: {
+      const [to, data, operation] = calls.length === 1
+        ? [calls[0].to, calls[0].data, SAFE_CALL]
+        : [MULTI_SEND_CALL_ONLY, encodeMultiSend(calls), SAFE_DELEGATECALL];
+      // Pre-validated signature: r = owner address, s = 0, v = 1
+      const signature = ethers.utils.hexConcat([
+        ethers.utils.hexZeroPad(signer.address, 32),
+        ethers.constants.HashZero,
+        "0x01",
+      ]);
+      const iface = new ethers.utils.Interface(SAFE_ABI);
+      const safeData = iface.encodeFunctionData("execTransaction", [
+        to, 0, data, operation, 0, 0, 0, ethers.constants.AddressZero, ethers.constants.AddressZero, signature,
+      ]);
+      return { to: config.funderAddress, data: safeData };
+    }
+    default:
+      throw new Error(`Unknown signature type: ${config.signatureType}`);
+  }
+}
+
+/**
+ * MultiSend payload: each call packed as (operation, to, value, data length, data).
+ */
+function encodeMultiSend(calls: WalletCall[]): string {
+  const packed = ethers.utils.hexConcat(calls.map((c) => ethers.utils.solidityPack(
+    ["uint8", "address", "uint256", "uint256", "bytes"],
+    [SAFE_CALL, c.to, 0, ethers.utils.hexDataLength(c.data), c.data],
+  )));
+  return new ethers.utils.Interface(MULTI_SEND_ABI).encodeFunctionData("multiSend", [packed]);
+}
@@ -0,0 +1,66 @@
+import { beforeAll, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { configFromFile, SizingConfig } from "../src/config.js";
+import { DatasetRecord, loadDataset } from "../src/dataset.js";
+import { runBacktest } from "../src/backtest.js";
+
+// The fixture replayed with config.json, as `bun run backtest` does. Changing
+// the fixture, config.json or a strategy's rules moves these numbers.
+const EXPECTED: Record<string, Record<SizingConfig["mode"], { trades: number; wins: number; pnl: number }>> = {
+  "ride-the-wave": {
+    fixed: { trades: 14, wins: 9, pnl: -60.4 },
+    fraction: { trades: 14, wins: 9, pnl: -30.85 },
+    kelly: { trades: 6, wins: 4, pnl: -5.765 },
+  },
+  "contrarian-fade": {
+    fixed: { trades: 6, wins: 5, pnl: 267.91 },
+    fraction: { trades: 6, wins: 5, pnl: 140.005 },
+    kelly: { trades: 6, wins: 5, pnl: 129.825 },
+  },
+  // Only the last two markets, where spot moves well before the book follows
+  "btc-momentum": {
+    fixed: { trades: 2, wins: 1, pnl: -12.4 },
+    fraction: { trades: 2, wins: 1, pnl: -6.2 },
+    kelly: { trades: 2, wins: 1, pnl: -12.4 },
+  },
+};
+
+const configFile = JSON.parse(readFileSync("config.json", "utf-8"));
+let records: DatasetRecord[];
+let logFile: string;
+
+beforeAll(() => {
+  records = loadDataset("fixtures/backtest/sample.ndjson");
+  logFile = join(mkdtempSync(join(tmpdir(), "backtest-")), "backtest-trades.jsonl");
+});
+
+for (const [strategy, modes] of Object.entries(EXPECTED)) {
+  for (const [mode, expected] of Object.entries(modes)) {
+    test(`${strategy} with ${mode} sizing`, async () => {
+      const config = configFromFile({ ...configFile, enabled: true, strategy }, {});
+      config.sizing.mode = mode as SizingConfig["mode"];
+      const bt = await runBacktest({ config, records, tradeLogFile: logFile });
+
+      expect(bt.markets).toBe(14);
+      expect(bt.unresolvedMarkets).toBe(0);
+      expect(bt.summary.open).toBe(0);
+      expect(bt.summary.trades).toBe(expected.trades);
+      expect(bt.summary.wins).toBe(expected.wins);
+      expect(bt.summary.pnl).toBeCloseTo(expected.pnl, 2);
+    });
+  }
+}
+
+test("runs after others in the same process start from clean fair-value caches", async () => {
+  // minEdge filters entries on fair value, so stale opens or volatility would
+  // change which trades are taken; these match `bun run backtest -- --min-edge 0`
+  const config = configFromFile({ ...configFile, enabled: true, minEdge: 0 }, {});
+  for (let i = 0; i < 2; i++) {
+    const bt = await runBacktest({ config, records, tradeLogFile: logFile });
+    expect(bt.summary.trades).toBe(6);
+    expect(bt.summary.wins).toBe(4);
+    expect(bt.summary.pnl).toBeCloseTo(-16.155, 2);
+  }
+});
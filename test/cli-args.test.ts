@@ -0,0 +1,17 @@
+import { expect, test } from "bun:test";
+import { parseDate, parsePositive } from "../src/cli-args.js";
+
+test("parseDate reads a bare date as the start of that UTC day, or the next with endOfDay", () => {
+  expect(parseDate("2026-02-01", false)).toBe(Date.UTC(2026, 1, 1));
+  expect(parseDate("2026-02-01", true)).toBe(Date.UTC(2026, 1, 2));
+  expect(parseDate("2026-02-01T06:30:00Z", true)).toBe(Date.UTC(2026, 1, 1, 6, 30));
+  expect(() => parseDate("last week", false)).toThrow("Invalid date: last week");
+});
+
+test("parsePositive accepts only numbers above zero", () => {
+  expect(parsePositive("--bucket", "0.1")).toBe(0.1);
+  expect(parsePositive("--at-minute", "8")).toBe(8);
+  for (const raw of ["", "abc", "5min", "0", "-2", "Infinity"]) {
+    expect(() => parsePositive("--bucket", raw)).toThrow(`--bucket must be a number greater than 0, got "${raw}"`);
+  }
+});
@@ -0,0 +1,76 @@
+import { expect, test } from "bun:test";
+import { resolveConfig } from "../src/config.js";
+import type { PositionRecord } from "../src/guardrails.js";
+import type { ActiveMarket } from "../src/market-discovery.js";
+import { resolveSeries } from "../src/market-series.js";
+import { evaluateStandardExit } from "../src/strategies/common.js";
+
+const [series] = resolveSeries(["btc-15m"]);
+
+// 20 shares bought for $10: unrealized gain is 2 × price − 1
+const POSITION: PositionRecord = {
+  conditionId: "0x01", tokenId: "up", outcome: "Up", entryPrice: 0.5, size: 20, costBasis: 10,
+  entryTime: 0, marketSlug: "btc-updown-15m-1767225600", negRisk: false,
+};
+
+function market(price: number, minutesRemaining: number): ActiveMarket {
+  return {
+    series, conditionId: "0x01", slug: POSITION.marketSlug, question: "", startTime: 0, endTime: 0,
+    secondsRemaining: minutesRemaining * 60, minutesRemaining, tickSize: "0.01", negRisk: false, closed: false,
+    outcomes: [{ tokenId: "up", outcome: "Up", price }, { tokenId: "down", outcome: "Down", price: 1 - price }],
+  };
+}
+
+// Defaults: take profit at +80%, lock in more than +10% with under a minute left
+test.each([
+  { price: 0.9, minutes: 10, exit: "take-profit" },
+  { price: 0.89, minutes: 10, exit: null },
+  { price: 0.95, minutes: 0.5, exit: "take-profit" },
+  { price: 0.6, minutes: 0.5, exit: "profit-lock" },
+  { price: 0.54, minutes: 0.5, exit: null },
+  { price: 0.6, minutes: 1, exit: null },
+  { price: 0.4, minutes: 0.5, exit: null },
+])("take-profit and profit-lock: $price with $minutes min left → $exit", ({ price, minutes, exit }) => {
+  const signal = evaluateStandardExit(market(price, minutes), POSITION, resolveConfig({}));
+  expect(signal.unrealizedGainPct).toBeCloseTo(2 * price - 1, 9);
+  if (exit === null) {
+    expect(signal.signal).toBe("HOLD");
+    return;
+  }
+  expect(signal).toMatchObject({ signal: "SELL", exitType: exit, suggestedSize: 20, suggestedPrice: price, orderType: "GTC" });
+});
+
+test.each([
+  // Drawdown stop at −50%
+  { stop: { stopLossPct: 0.5 }, price: 0.25, minutes: 5, reason: 'Stop loss: "Up" down 50.0% (max drawdown 50%)' },
+  { stop: { stopLossPct: 0.5 }, price: 0.26, minutes: 5, reason: null },
+  // Price floor at $0.30
+  { stop: { stopLossPrice: 0.3 }, price: 0.3, minutes: 5, reason: 'Stop loss: "Up" at $0.30 <= floor $0.30' },
+  { stop: { stopLossPrice: 0.3 }, price: 0.31, minutes: 5, reason: null },
+  // A zero price is a failed midpoint fetch, never a stop
+  { stop: { stopLossPct: 0.5, stopLossPrice: 0.3 }, price: 0, minutes: 5, reason: null },
+  // Only within the last 3 minutes
+  { stop: { stopLossPrice: 0.3, stopLossWithinMinutes: 3 }, price: 0.2, minutes: 5, reason: null },
+  { stop: { stopLossPrice: 0.3, stopLossWithinMinutes: 3 }, price: 0.2, minutes: 3, reason: 'Stop loss: "Up" at $0.20 <= floor $0.30' },
+  // Off by default
+  { stop: {}, price: 0.01, minutes: 0.5, reason: null },
+])("stop-loss $stop: $price with $minutes min left", ({ stop, price, minutes, reason }) => {
+  const signal = evaluateStandardExit(market(price, minutes), POSITION, resolveConfig(stop));
+  if (reason === null) {
+    expect(signal.signal).toBe("HOLD");
+    return;
+  }
+  expect(signal).toMatchObject({ signal: "SELL", exitType: "stop-loss", reason, suggestedSize: 20 });
+});
+
+test("exit thresholds follow the config", () => {
+  const config = resolveConfig({ takeProfitPct: 0.5, profitLockMinutes: 3, profitLockPct: 0.2 });
+  expect(evaluateStandardExit(market(0.75, 10), POSITION, config).exitType).toBe("take-profit");
+  expect(evaluateStandardExit(market(0.65, 2.5), POSITION, config).exitType).toBe("profit-lock");
+  expect(evaluateStandardExit(market(0.6, 2.5), POSITION, config).signal).toBe("HOLD");
+});
+
+test("holds when the position's outcome isn't in the market", () => {
+  const signal = evaluateStandardExit(market(0.95, 5), { ...POSITION, tokenId: "other" }, resolveConfig({}));
+  expect(signal).toEqual({ signal: "HOLD", reason: "Can't find current price for held position" });
+});
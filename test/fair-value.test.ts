@@ -0,0 +1,97 @@
+import { afterAll, beforeEach, expect, test } from "bun:test";
+import { setClock } from "../src/clock.js";
+import { computeFairValue, FairValue, resetFairValueCache } from "../src/fair-value.js";
+import type { ActiveMarket } from "../src/market-discovery.js";
+import { resolveSeries } from "../src/market-series.js";
+import { setPriceFeed } from "../src/price-feed.js";
+
+const [series] = resolveSeries(["btc-15m"]);
+const NOW_SEC = 1767226200;                   // 10 minutes into the market below
+const OPEN = 100_000;
+const MEAN_ABS_MOVE = 0.002;                  // σ = 0.002 × √(π/2) over one market
+const SIGMA = MEAN_ABS_MOVE * Math.sqrt(Math.PI / 2);
+
+let spot = OPEN;
+
+function market(secondsRemaining: number, startTime = NOW_SEC - 600): ActiveMarket {
+  return {
+    series, conditionId: "0x01", slug: `btc-updown-15m-${startTime}`, question: "", startTime, endTime: startTime + 900,
+    secondsRemaining, minutesRemaining: secondsRemaining / 60, tickSize: "0.01", negRisk: false, closed: false, outcomes: [],
+  };
+}
+
+async function fairValue(secondsRemaining: number): Promise<FairValue> {
+  const fv = await computeFairValue(market(secondsRemaining));
+  expect(fv).not.toBeNull();
+  return fv!;
+}
+
+beforeEach(() => {
+  spot = OPEN;
+  resetFairValueCache();
+  setClock(() => NOW_SEC * 1000);
+  setPriceFeed({
+    getPrice: async () => spot,
+    getPriceAt: async () => OPEN,
+    estimateVol: async () => MEAN_ABS_MOVE,
+  });
+});
+
+afterAll(() => {
+  setClock(null);
+  setPriceFeed(null);
+  resetFairValueCache();
+});
+
+test("is a coin flip when spot is at the open", async () => {
+  const fv = await fairValue(300);
+  expect(fv).toMatchObject({ open: OPEN, spot: OPEN });
+  expect(fv.vol).toBeCloseTo(SIGMA, 12);
+  expect(fv.up).toBeCloseTo(0.5, 6);
+  expect(fv.down).toBeCloseTo(0.5, 6);
+});
+
+test("matches the log-normal formula", async () => {
+  // One σ up with a full market's time left: Φ(1)
+  spot = OPEN * Math.exp(SIGMA);
+  expect((await fairValue(900)).up).toBeCloseTo(0.841345, 5);
+
+  // Two σ down with a quarter of it left: Φ(-2σ / (σ · 0.5)) = Φ(-4)
+  spot = OPEN * Math.exp(-2 * SIGMA);
+  expect((await fairValue(225)).up).toBeCloseTo(0.0000317, 6);
+});
+
+test("rises with spot, and Up and Down sum to 1", async () => {
+  let previous = -1;
+  for (const move of [-0.004, -0.001, -0.0001, 0, 0.0001, 0.001, 0.004]) {
+    spot = OPEN * (1 + move);
+    const fv = await fairValue(300);
+    expect(fv.up).toBeGreaterThan(previous);
+    expect(fv.up + fv.down).toBeCloseTo(1, 12);
+    previous = fv.up;
+  }
+});
+
+test("approaches 1 or 0 as time runs out", async () => {
+  for (const [move, towards] of [[0.0005, 1], [-0.0005, 0]] as const) {
+    spot = OPEN * (1 + move);
+    const distances = [];
+    for (const secondsRemaining of [900, 300, 60, 10, 1]) {
+      distances.push(Math.abs(towards - (await fairValue(secondsRemaining)).up));
+    }
+    for (let i = 1; i < distances.length; i++) expect(distances[i]).toBeLessThan(distances[i - 1]);
+    expect(distances[distances.length - 1]).toBeLessThan(1e-6);
+    expect((await fairValue(0)).up).toBe(towards);
+  }
+});
+
+test("is unavailable before the market starts or without spot prices", async () => {
+  expect(await computeFairValue(market(900, NOW_SEC + 60))).toBeNull();
+
+  setPriceFeed({
+    getPrice: async () => { throw new Error("feed down"); },
+    getPriceAt: async () => OPEN,
+    estimateVol: async () => MEAN_ABS_MOVE,
+  });
+  expect(await computeFairValue(market(300))).toBeNull();
+});
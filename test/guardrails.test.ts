@@ -0,0 +1,203 @@
+import { afterAll, beforeAll, beforeEach, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setClock } from "../src/clock.js";
+import { resolveConfig, TraderConfig } from "../src/config.js";
+import {
+  activateKillswitch, checkPreTrade, clearKillswitch, closePosition, getGuardrailState, getOpenExposure,
+  loadGuardrailState, PositionRecord, recordTrade, resetGuardrailState, setGuardrailStateFile,
+} from "../src/guardrails.js";
+import { silentLogger } from "../src/logger.js";
+import { setTradeLogFile } from "../src/trade-log.js";
+
+const NOW = Date.UTC(2026, 0, 15, 12);
+const MINUTE = 60 * 1000;
+
+let dir: string;
+let logFile: string;
+let previousLog: string;
+let previousState: string | null;
+
+const config: TraderConfig = resolveConfig({
+  enabled: true, maxOrderSize: 50, maxPositionSize: 100, maxDailyLoss: 30, maxTradesPerHour: 3,
+});
+
+function position(n: number, overrides: Partial<PositionRecord> = {}): PositionRecord {
+  return {
+    conditionId: `0x${n}`, tokenId: `${n}`, outcome: "Up", entryPrice: 0.5, size: 40, costBasis: 20,
+    entryTime: NOW, marketSlug: `btc-updown-15m-${1768478400 + n * 900}`, negRisk: false, ...overrides,
+  };
+}
+
+function writeLog(entries: object[]): void {
+  writeFileSync(logFile, entries.map((e) => JSON.stringify(e)).join("\n") + (entries.length ? "\n" : ""));
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "guardrails-"));
+  logFile = join(dir, "trades.jsonl");
+  previousLog = setTradeLogFile(logFile);
+  previousState = setGuardrailStateFile(null);
+  setClock(() => NOW);
+});
+
+beforeEach(() => {
+  writeLog([]);
+  resetGuardrailState();
+});
+
+afterAll(() => {
+  setClock(null);
+  setTradeLogFile(previousLog);
+  setGuardrailStateFile(previousState);
+  resetGuardrailState();
+});
+
+test("allows an order within every limit", () => {
+  expect(checkPreTrade(config, 20)).toEqual({ allowed: true });
+});
+
+test("rejects orders over maxOrderSize, or with trading disabled", () => {
+  expect(checkPreTrade(config, 51).reason).toBe("Order size $51 exceeds max $50");
+  expect(checkPreTrade({ ...config, enabled: false }, 20).reason).toBe("Trading is disabled (enabled=false)");
+});
+
+test("caps unresolved exposure at maxPositionSize, not counting resolved positions", () => {
+  recordTrade(position(1, { costBasis: 45 }));
+  recordTrade(position(2, { costBasis: 40 }));
+  expect(getOpenExposure()).toBe(85);
+  expect(checkPreTrade(config, 15).allowed).toBe(true);
+  expect(checkPreTrade(config, 16).reason).toBe("Exposure $85.00 + order $16.00 exceeds max position size $100");
+
+  // Once the first market's resolution is logged, its cost no longer counts
+  writeLog([{ type: "resolution", time: new Date(NOW).toISOString(), slug: position(1).marketSlug, resolved: "Up" }]);
+  expect(getOpenExposure()).toBe(40);
+  expect(getGuardrailState().openPositions.has("0x1")).toBe(false);
+});
+
+test("limits trades to maxTradesPerHour over a rolling hour", () => {
+  recordTrade(position(1, { costBasis: 1, entryTime: NOW - 61 * MINUTE }));
+  recordTrade(position(2, { costBasis: 1, entryTime: NOW - 30 * MINUTE }));
+  recordTrade(position(3, { costBasis: 1, entryTime: NOW - 10 * MINUTE }));
+  expect(checkPreTrade(config, 10).allowed).toBe(true);
+
+  recordTrade(position(4, { costBasis: 1, entryTime: NOW }));
+  expect(checkPreTrade(config, 10).reason).toBe("3 trades in the last hour (max 3)");
+});
+
+test("trips the killswitch once today's realized loss reaches maxDailyLoss", () => {
+  const day = new Date(NOW).toISOString();
+  const buy = (slug: string, cost: number) => ({ type: "buy", time: day, slug, outcome: "Up", price: 0.5, size: cost * 2, cost, orderId: slug });
+
+  // Yesterday's loss doesn't count; today's $20 loss is under the limit
+  writeLog([
+    { ...buy("a", 50), time: new Date(NOW - 24 * 60 * MINUTE).toISOString() },
+    { type: "resolution", time: day, slug: "a", resolved: "Down" },
+    buy("b", 20),
+    { type: "resolution", time: day, slug: "b", resolved: "Down" },
+  ]);
+  expect(checkPreTrade(config, 10).allowed).toBe(true);
+
+  writeLog([
+    buy("b", 20),
+    { type: "resolution", time: day, slug: "b", resolved: "Down" },
+    buy("c", 10),
+    { type: "sell", time: day, slug: "c", outcome: "Up", price: 0, size: 20, proceeds: 0, orderId: "s", exitType: "stop-loss", reason: "" },
+  ]);
+  expect(checkPreTrade(config, 10).reason).toBe("KILLSWITCH activated — Daily loss $30.00 reached max $30");
+
+  // Stays on even once the loss is gone, until cleared
+  writeLog([]);
+  expect(getGuardrailState().killswitch).toBe(true);
+  expect(checkPreTrade(config, 10).reason).toBe("KILLSWITCH active — trading halted (Daily loss $30.00 reached max $30)");
+  clearKillswitch();
+  expect(checkPreTrade(config, 10).allowed).toBe(true);
+});
+
+test("persists state on every change and restores it on load", () => {
+  const stateFile = join(dir, "guardrails-state.json");
+  setGuardrailStateFile(stateFile);
+  try {
+    rmSync(stateFile, { force: true });
+    recordTrade(position(1, { entryTime: NOW - 10 * MINUTE }));
+    recordTrade(position(2, { entryTime: NOW - 5 * MINUTE }));
+    closePosition("0x2");
+    activateKillswitch("operator test");
+
+    const saved = JSON.parse(readFileSync(stateFile, "utf-8"));
+    expect(saved.openPositions.map((p: PositionRecord) => p.conditionId)).toEqual(["0x1"]);
+    expect(saved).toMatchObject({ killswitch: true, killswitchReason: "operator test", killswitchAt: NOW });
+    expect(existsSync(stateFile + ".tmp")).toBe(false);
+
+    resetGuardrailState();
+    loadGuardrailState(silentLogger);
+    const state = getGuardrailState();
+    expect(state.positionsList).toEqual([position(1, { entryTime: NOW - 10 * MINUTE })]);
+    expect(state.killswitch).toBe(true);
+    expect(state.killswitchReason).toBe("operator test");
+    expect(state.tradeTimes).toEqual([NOW - 10 * MINUTE, NOW - 5 * MINUTE]);
+  } finally {
+    setGuardrailStateFile(null);
+  }
+});
+
+test("reconciles the loaded state with the trade log", () => {
+  const stateFile = join(dir, "guardrails-state.json");
+  setGuardrailStateFile(stateFile);
+  try {
+    // Snapshot: one position whose market has since resolved, one still open
+    const resolved = position(1);
+    const open = position(2);
+    writeFileSync(stateFile, JSON.stringify({
+      savedAt: new Date(NOW).toISOString(), openPositions: [resolved, open], killswitch: false, tradeTimes: [NOW - 2 * 60 * MINUTE],
+    }));
+
+    const at = (ms: number) => new Date(ms).toISOString();
+    writeLog([
+      { type: "resolution", time: at(NOW), slug: resolved.marketSlug, resolved: "Up" },
+      // Bought after the snapshot was written: 10 of 30 shares sold, and the
+      // buy filled at 30 of the 40 requested
+      { type: "buy", time: at(NOW - 20 * MINUTE), slug: "btc-updown-15m-1768480000", outcome: "Down", price: 0.6, size: 40, cost: 24, orderId: "b3", conditionId: "0x3", tokenId: "3", negRisk: true, strategy: "contrarian-fade" },
+      { type: "fill", time: at(NOW - 19 * MINUTE), slug: "btc-updown-15m-1768480000", orderId: "b3", side: "buy", requestedSize: 40, filledSize: 30, avgPrice: 0.6, status: "partial", note: "canceled" },
+      { type: "sell", time: at(NOW - 15 * MINUTE), slug: "btc-updown-15m-1768480000", outcome: "Down", price: 0.8, size: 10, proceeds: 8, orderId: "s3", exitType: "take-profit", reason: "" },
+      // Fully sold, and one that predates conditionId logging
+      { type: "buy", time: at(NOW - 3 * 60 * MINUTE), slug: "btc-updown-15m-1768470000", outcome: "Up", price: 0.6, size: 10, cost: 6, orderId: "b4", conditionId: "0x4", tokenId: "4" },
+      { type: "sell", time: at(NOW - 3 * 60 * MINUTE), slug: "btc-updown-15m-1768470000", outcome: "Up", price: 0.7, size: 10, proceeds: 7, orderId: "s4", exitType: "take-profit", reason: "" },
+      { type: "buy", time: at(NOW - 4 * 60 * MINUTE), slug: "btc-updown-15m-1768460000", outcome: "Up", price: 0.6, size: 10, cost: 6, orderId: "b5" },
+    ]);
+
+    loadGuardrailState(silentLogger);
+    const state = getGuardrailState();
+    expect(Array.from(state.openPositions.keys()).sort()).toEqual(["0x2", "0x3"]);
+    expect(state.openPositions.get("0x2")).toEqual(open);
+    expect(state.openPositions.get("0x3")).toEqual({
+      conditionId: "0x3", tokenId: "3", outcome: "Down", entryPrice: 0.6, size: 20, costBasis: 12,
+      entryTime: NOW - 20 * MINUTE, marketSlug: "btc-updown-15m-1768480000", negRisk: true, strategy: "contrarian-fade",
+    });
+    // The 2-hour-old trade time is pruned; the buy from 20 minutes ago is counted
+    expect(state.tradeTimes).toEqual([NOW - 20 * MINUTE]);
+
+    // The reconciled state is written back
+    const saved = JSON.parse(readFileSync(stateFile, "utf-8"));
+    expect(saved.openPositions.map((p: PositionRecord) => p.conditionId).sort()).toEqual(["0x2", "0x3"]);
+  } finally {
+    setGuardrailStateFile(null);
+  }
+});
+
+test("rebuilds from the trade log alone when the snapshot is unreadable", () => {
+  const stateFile = join(dir, "guardrails-state.json");
+  setGuardrailStateFile(stateFile);
+  try {
+    writeFileSync(stateFile, "{ not json");
+    writeLog([
+      { type: "buy", time: new Date(NOW - 5 * MINUTE).toISOString(), slug: "btc-updown-15m-1768480000", outcome: "Up", price: 0.5, size: 10, cost: 5, orderId: "b1", conditionId: "0x1", tokenId: "1" },
+    ]);
+    loadGuardrailState(silentLogger);
+    expect(getGuardrailState().positionsList.map((p) => p.conditionId)).toEqual(["0x1"]);
+    expect(getGuardrailState().killswitch).toBe(false);
+  } finally {
+    setGuardrailStateFile(null);
+  }
+});
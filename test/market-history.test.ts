@@ -0,0 +1,56 @@
+import { expect, test } from "bun:test";
+import { computeBaseRates, HistoricalMarket, priceAt } from "../src/market-history.js";
+
+// Thursday 2026-01-15, 12:00 UTC
+const START = Date.UTC(2026, 0, 15, 12) / 1000;
+
+function market(startTime: number, winner: HistoricalMarket["winner"], prices: [number, number][]): HistoricalMarket {
+  return {
+    slug: `btc-updown-15m-${startTime}`, series: "btc-15m", conditionId: "0x01", question: "",
+    startTime, endTime: startTime + 900, upTokenId: "up", downTokenId: "down", winner,
+    prices: prices.map(([offset, up]) => [startTime + offset, up]),
+    fetchedAt: 0,
+  };
+}
+
+test("priceAt takes the latest point at or before the moment, if recent enough", () => {
+  const m = market(START, "Up", [[0, 0.5], [60, 0.55], [300, 0.7]]);
+  expect(priceAt(m, START - 1)).toBeNull();
+  expect(priceAt(m, START)).toBe(0.5);
+  expect(priceAt(m, START + 59)).toBe(0.5);
+  expect(priceAt(m, START + 60)).toBe(0.55);
+  expect(priceAt(m, START + 180)).toBe(0.55);
+  // More than two minutes stale
+  expect(priceAt(m, START + 181)).toBeNull();
+  expect(priceAt(m, START + 300)).toBe(0.7);
+});
+
+test("computeBaseRates groups leader wins by price bucket, hour and weekday", () => {
+  const markets = [
+    market(START, "Up", [[300, 0.62]]),              // Up leads at $0.62, wins
+    market(START + 900, "Up", [[300, 0.3]]),         // Down leads at $0.70, loses
+    market(START + 3600, "Down", [[300, 0.36]]),     // Down leads at $0.64, wins
+    market(START + 4500, "Down", [[300, 0.5]]),      // Tied: Up counts as leader, loses
+    market(START + 5400, "Up", [[10, 0.8]]),         // No price at minute 5: skipped
+    market(START + 6300, null, [[300, 0.9]]),        // Unresolved: left out
+  ];
+  const rates = computeBaseRates(markets, 5, 0.1);
+
+  expect(rates).toMatchObject({ atMinute: 5, markets: 4, skipped: 1 });
+  expect(rates.overall.markets).toBe(4);
+  expect(rates.overall.leaderWins).toBe(2);
+  expect(rates.overall.avgLeaderPrice).toBeCloseTo((0.62 + 0.7 + 0.64 + 0.5) / 4, 9);
+
+  expect(Object.keys(rates.byPriceBucket).sort()).toEqual(["0.50-0.60", "0.60-0.70", "0.70-0.80"]);
+  expect(rates.byPriceBucket["0.60-0.70"]).toMatchObject({ markets: 2, leaderWins: 2 });
+  expect(rates.byPriceBucket["0.70-0.80"]).toMatchObject({ markets: 1, leaderWins: 0 });
+
+  expect(rates.byHour[12]).toMatchObject({ markets: 2, leaderWins: 1 });
+  expect(rates.byHour[13]).toMatchObject({ markets: 2, leaderWins: 1 });
+  expect(Object.keys(rates.byWeekday)).toEqual(["4"]);
+});
+
+test("computeBaseRates puts a $1.00 leader in the top bucket", () => {
+  const rates = computeBaseRates([market(START, "Up", [[300, 1]])], 5, 0.05);
+  expect(Object.keys(rates.byPriceBucket)).toEqual(["0.95-1.00"]);
+});
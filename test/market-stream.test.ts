@@ -0,0 +1,165 @@
+import { afterAll, afterEach, beforeEach, expect, test } from "bun:test";
+import type { ServerWebSocket } from "bun";
+import { resolveConfig, StreamConfig } from "../src/config.js";
+import { silentLogger } from "../src/logger.js";
+import type { ActiveMarket } from "../src/market-discovery.js";
+import { getLiveBook, isMarketStreamConnected, startMarketStream, stopMarketStream, watchMarket } from "../src/market-stream.js";
+import { resolveSeries } from "../src/market-series.js";
+
+// Local stand-in for the CLOB market channel (and a silent spot stream)
+let reject = false;                            // Refuse WebSocket upgrades
+const connects: number[] = [];                 // Time of each market channel connection
+const subscriptions: any[] = [];               // Messages received on the market channel
+let client: ServerWebSocket<{ path: string }> | null = null;
+
+const server = Bun.serve<{ path: string }, {}>({
+  port: 0,
+  fetch(req, srv) {
+    if (reject) return new Response("unavailable", { status: 503 });
+    const path = new URL(req.url).pathname;
+    if (srv.upgrade(req, { data: { path } })) return undefined;
+    return new Response("expected a WebSocket", { status: 400 });
+  },
+  websocket: {
+    open(ws) {
+      if (ws.data.path !== "/market") return;
+      client = ws;
+      connects.push(Date.now());
+    },
+    message(ws, message) {
+      if (ws.data.path !== "/market" || message === "PING") return;
+      subscriptions.push(JSON.parse(String(message)));
+    },
+  },
+});
+
+const [series] = resolveSeries(["btc-15m"]);
+const MARKET = {
+  series,
+  endTime: Math.floor(Date.now() / 1000) + 900,
+  outcomes: [{ tokenId: "up-token" }, { tokenId: "down-token" }],
+} as ActiveMarket;
+
+let statuses: boolean[] = [];
+let updates: string[] = [];
+
+function streamConfig(overrides: Partial<StreamConfig> = {}): StreamConfig {
+  return {
+    ...resolveConfig({}).stream,
+    marketUrl: `ws://localhost:${server.port}/market`,
+    spotUrl: `ws://localhost:${server.port}/spot`,
+    ...overrides,
+  };
+}
+
+function start(overrides: Partial<StreamConfig> = {}): void {
+  startMarketStream(streamConfig(overrides), [series], {
+    onBookUpdate: (tokenId, seriesId) => updates.push(`${seriesId}:${tokenId}`),
+    onStatus: (connected) => statuses.push(connected),
+  }, silentLogger);
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await Bun.sleep(10);
+  }
+}
+
+beforeEach(() => {
+  reject = false;
+  connects.length = 0;
+  subscriptions.length = 0;
+  client = null;
+  statuses = [];
+  updates = [];
+});
+
+afterEach(() => stopMarketStream());
+afterAll(() => {
+  server.stop(true);
+});
+
+test("book and price_change messages update the live book", async () => {
+  start();
+  watchMarket(MARKET);
+  await waitFor(() => subscriptions.length > 0);
+  expect(subscriptions[0]).toEqual({ type: "market", assets_ids: ["up-token", "down-token"] });
+
+  client!.send(JSON.stringify([{
+    event_type: "book",
+    asset_id: "up-token",
+    bids: [{ price: "0.54", size: "50" }, { price: "0.55", size: "100" }],
+    asks: [{ price: "0.57", size: "80" }, { price: "0.58", size: "40" }],
+  }]));
+  await waitFor(() => updates.length === 1);
+  expect(getLiveBook("up-token")).toEqual({ bids: [[0.55, 100], [0.54, 50]], asks: [[0.57, 80], [0.58, 40]] });
+  expect(getLiveBook("down-token")).toBeNull();
+
+  // A new best bid, and the best ask taken out
+  client!.send(JSON.stringify({
+    event_type: "price_change",
+    price_changes: [
+      { asset_id: "up-token", side: "BUY", price: "0.56", size: "20" },
+      { asset_id: "up-token", side: "SELL", price: "0.57", size: "0" },
+    ],
+  }));
+  await waitFor(() => updates.length === 2);
+  expect(getLiveBook("up-token")).toEqual({ bids: [[0.56, 20], [0.55, 100], [0.54, 50]], asks: [[0.58, 40]] });
+
+  // Older format: one asset_id with its changes
+  client!.send(JSON.stringify({
+    event_type: "price_change",
+    asset_id: "up-token",
+    changes: [{ side: "BUY", price: "0.54", size: "0" }],
+  }));
+  await waitFor(() => updates.length === 3);
+  expect(getLiveBook("up-token")!.bids).toEqual([[0.56, 20], [0.55, 100]]);
+  expect(updates).toEqual(Array(3).fill("btc-15m:up-token"));
+});
+
+test("reconnects with exponential backoff after a disconnect and resubscribes", async () => {
+  start();
+  watchMarket(MARKET);
+  await waitFor(() => subscriptions.length === 1);
+  client!.send(JSON.stringify({ event_type: "book", asset_id: "up-token", bids: [{ price: "0.5", size: "10" }], asks: [] }));
+  await waitFor(() => getLiveBook("up-token") !== null);
+
+  // Drop the connection and refuse the first retry
+  reject = true;
+  const droppedAt = Date.now();
+  client!.close();
+  await waitFor(() => statuses.length === 2);
+  expect(statuses).toEqual([true, false]);
+  expect(isMarketStreamConnected()).toBe(false);
+  expect(getLiveBook("up-token")).toBeNull();
+
+  await Bun.sleep(1500);
+  reject = false;
+  await waitFor(() => connects.length === 2 && subscriptions.length === 2, 5000);
+  expect(statuses).toEqual([true, false, true]);
+
+  // First retry after 1s (refused), the second 2s after that
+  const delay = connects[1] - droppedAt;
+  expect(delay).toBeGreaterThanOrEqual(2900);
+  expect(delay).toBeLessThan(4500);
+  expect(subscriptions[1]).toEqual({ type: "market", assets_ids: ["up-token", "down-token"] });
+
+  // The old book was dropped with the connection
+  expect(getLiveBook("up-token")).toBeNull();
+}, 10_000);
+
+test("a silent connection is reported down, so books come from REST again", async () => {
+  start({ staleSec: 0.3 });
+  watchMarket(MARKET);
+  await waitFor(() => subscriptions.length === 1);
+  client!.send(JSON.stringify({ event_type: "book", asset_id: "up-token", bids: [{ price: "0.5", size: "10" }], asks: [] }));
+  await waitFor(() => getLiveBook("up-token") !== null);
+
+  // No messages (not even PONGs) from here on
+  await waitFor(() => statuses.length === 2, 2000);
+  expect(statuses).toEqual([true, false]);
+  expect(isMarketStreamConnected()).toBe(false);
+  expect(getLiveBook("up-token")).toBeNull();
+});
@@ -0,0 +1,128 @@
+import { afterAll, afterEach, beforeEach, expect, test } from "bun:test";
+import { setClock } from "../src/clock.js";
+import { NotifierConfig, SinkConfig } from "../src/config.js";
+import { silentLogger } from "../src/logger.js";
+import { notify, startNotifier, stopNotifier } from "../src/notifier.js";
+
+// Local stand-in for every sink: records each POST
+const received: { path: string; body: any }[] = [];
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    received.push({ path: new URL(req.url).pathname, body: await req.json() });
+    return Response.json({ ok: true });
+  },
+});
+const base = `http://localhost:${server.port}`;
+
+const WEBHOOK: SinkConfig = { type: "webhook", url: `${base}/webhook` };
+const TELEGRAM: SinkConfig = { type: "telegram", apiBase: base, botToken: "TOKEN", chatId: "42" };
+const DISCORD: SinkConfig = { type: "discord", url: `${base}/discord` };
+const SLACK: SinkConfig = { type: "slack", url: `${base}/slack` };
+
+let clockMs = Date.UTC(2026, 0, 1, 12);
+
+function start(sinks: SinkConfig[], overrides: Partial<NotifierConfig> = {}): void {
+  startNotifier({
+    enabled: true,
+    sinks,
+    rateLimitPerMinute: 10,
+    dedupWindowSec: 300,
+    dailySummaryHourUtc: null,
+    errorThreshold: 3,
+    ...overrides,
+  }, silentLogger);
+}
+
+/** Wait for `count` requests, then a little longer to catch any extras. */
+async function expectRequests(count: number): Promise<{ path: string; body: any }[]> {
+  const deadline = Date.now() + 2000;
+  while (received.length < count && Date.now() < deadline) await Bun.sleep(10);
+  await Bun.sleep(50);
+  expect(received).toHaveLength(count);
+  return received.splice(0);
+}
+
+beforeEach(() => {
+  // A day apart, so no test sees another's dedup entries
+  clockMs += 24 * 60 * 60 * 1000;
+  setClock(() => clockMs);
+  received.length = 0;
+});
+
+afterEach(() => stopNotifier());
+
+afterAll(() => {
+  setClock(null);
+  server.stop(true);
+});
+
+test("posts each sink's payload format", async () => {
+  start([WEBHOOK, TELEGRAM, DISCORD, SLACK]);
+  notify("fill", "Filled BUY", "10 Up @ $0.62");
+  const requests = await expectRequests(4);
+  const byPath = Object.fromEntries(requests.map((r) => [r.path, r.body]));
+
+  expect(byPath["/webhook"]).toEqual({
+    type: "fill", title: "Filled BUY", message: "10 Up @ $0.62", time: new Date(clockMs).toISOString(), suppressed: 0,
+  });
+  expect(byPath["/botTOKEN/sendMessage"]).toEqual({ chat_id: "42", text: "Filled BUY\n10 Up @ $0.62", disable_web_page_preview: true });
+  expect(byPath["/discord"]).toEqual({ content: "Filled BUY\n10 Up @ $0.62" });
+  expect(byPath["/slack"]).toEqual({ text: "Filled BUY\n10 Up @ $0.62" });
+});
+
+test("truncates Discord messages to 2000 characters", async () => {
+  start([DISCORD]);
+  notify("error", "Errors", "x".repeat(3000));
+  const [request] = await expectRequests(1);
+  expect(request.body.content).toHaveLength(2000);
+});
+
+test("routes events only to sinks that list them", async () => {
+  start([{ ...WEBHOOK, events: ["killswitch"] }, { ...SLACK, events: ["fill", "redemption"] }, DISCORD]);
+
+  notify("fill", "Filled", "one");
+  expect((await expectRequests(2)).map((r) => r.path).sort()).toEqual(["/discord", "/slack"]);
+
+  notify("killswitch", "Killswitch", "tripped");
+  expect((await expectRequests(2)).map((r) => r.path).sort()).toEqual(["/discord", "/webhook"]);
+
+  notify("summary", "Summary", "day");
+  expect((await expectRequests(1)).map((r) => r.path)).toEqual(["/discord"]);
+});
+
+test("rate limits each sink and reports what was dropped", async () => {
+  start([WEBHOOK, SLACK], { rateLimitPerMinute: 2 });
+  for (let i = 1; i <= 5; i++) notify("fill", "Filled", `order ${i}`);
+  const first = await expectRequests(4);
+  expect(first.filter((r) => r.path === "/webhook").map((r) => r.body.message).sort()).toEqual(["order 1", "order 2"]);
+
+  // A minute later the limit has reset; the next message carries the count
+  clockMs += 61_000;
+  notify("fill", "Filled", "order 6");
+  const next = await expectRequests(2);
+  const byPath = Object.fromEntries(next.map((r) => [r.path, r.body]));
+  expect(byPath["/webhook"]).toMatchObject({ message: "order 6", suppressed: 3 });
+  expect(byPath["/slack"].text).toBe("Filled\norder 6\n(3 earlier message(s) dropped by rate limit)");
+});
+
+test("sends repeats of an event once per dedup window", async () => {
+  start([WEBHOOK], { dedupWindowSec: 300 });
+  notify("error", "Tick failed", "RPC timeout");
+  notify("error", "Tick failed", "RPC timeout");
+  await expectRequests(1);
+
+  // Same text, different event type: not a repeat
+  notify("redemption", "Tick failed", "RPC timeout");
+  await expectRequests(1);
+
+  // Same key, different text: a repeat
+  notify("error", "Errors", "3 in a row", "tick-errors");
+  notify("error", "Errors", "4 in a row", "tick-errors");
+  await expectRequests(1);
+
+  clockMs += 301_000;
+  notify("error", "Tick failed", "RPC timeout");
+  notify("error", "Errors", "5 in a row", "tick-errors");
+  await expectRequests(2);
+});
@@ -0,0 +1,183 @@
+import { afterAll, beforeAll, beforeEach, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getClient, initReadOnlyClient } from "../src/client.js";
+import { resolveConfig } from "../src/config.js";
+import { getGuardrailState, PositionRecord, recordTrade, resetGuardrailState, setGuardrailStateFile } from "../src/guardrails.js";
+import { silentLogger } from "../src/logger.js";
+import {
+  getTrackedOrders, loadTrackedOrders, pollOrders, setTrackedOrdersFile, TrackedOrder, trackOrder,
+} from "../src/order-tracker.js";
+import { logBuy, logSell, readTradeLog, setTradeLogFile } from "../src/trade-log.js";
+
+// Stand-in for the CLOB's order endpoints on a read-only client
+const orders = new Map<string, any>();          // Order ID -> what getOrder returns
+const afterCancel = new Map<string, any>();     // Order ID -> what getOrder returns once cancelled
+const trades = new Map<string, any>();          // Trade ID -> trade
+const cancelled: string[] = [];
+
+const config = resolveConfig({ orderFillTimeoutSec: 60, cancelBeforeEndSec: 30 });
+const CONDITION = "0x" + "cc".repeat(32);
+const SLUG = "btc-updown-15m-1767225600";
+
+let dir: string;
+let previousLog: string;
+let previousState: string | null;
+let previousOrders: string | null;
+
+function position(overrides: Partial<PositionRecord> = {}): PositionRecord {
+  return {
+    conditionId: CONDITION, tokenId: "101", outcome: "Up", entryPrice: 0.6, size: 10, costBasis: 6,
+    entryTime: Date.now(), marketSlug: SLUG, negRisk: false, ...overrides,
+  };
+}
+
+/** A BUY placed as the executor does: position and buy entry at the requested size, then tracked. */
+function placeBuy(orderId: string, overrides: Partial<TrackedOrder> = {}): void {
+  const p = position();
+  recordTrade(p);
+  logBuy({ slug: SLUG, outcome: "Up", price: 0.6, size: 10, cost: 6, orderId, conditionId: CONDITION, tokenId: "101" });
+  trackOrder({
+    orderId, side: "BUY", conditionId: CONDITION, slug: SLUG, requestedSize: 10, limitPrice: 0.6,
+    placedAt: Date.now(), marketEndTime: Math.floor(Date.now() / 1000) + 600, position: p, ...overrides,
+  });
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "order-tracker-"));
+  previousLog = setTradeLogFile(join(dir, "trades.jsonl"));
+  previousState = setGuardrailStateFile(null);
+  previousOrders = setTrackedOrdersFile(join(dir, "tracked-orders.json"));
+
+  initReadOnlyClient();
+  Object.assign(getClient(), {
+    getOrder: async (id: string) => (cancelled.includes(id) && afterCancel.has(id) ? afterCancel.get(id) : orders.get(id)),
+    cancelOrder: async ({ orderID }: { orderID: string }) => {
+      cancelled.push(orderID);
+      return { canceled: [orderID] };
+    },
+    getTrades: async ({ id }: { id: string }) => (trades.has(id) ? [trades.get(id)] : []),
+  });
+});
+
+beforeEach(() => {
+  writeFileSync(join(dir, "trades.jsonl"), "");
+  rmSync(join(dir, "tracked-orders.json"), { force: true });
+  loadTrackedOrders(silentLogger);
+  resetGuardrailState();
+  orders.clear();
+  afterCancel.clear();
+  trades.clear();
+  cancelled.length = 0;
+});
+
+afterAll(() => {
+  setTradeLogFile(previousLog);
+  setGuardrailStateFile(previousState);
+  setTrackedOrdersFile(previousOrders);
+  resetGuardrailState();
+});
+
+test("corrects a partly filled buy to what matched, at the average trade price", async () => {
+  placeBuy("buy-1");
+  orders.set("buy-1", { status: "CANCELED", size_matched: "4", associate_trades: ["t1", "t2"] });
+  trades.set("t1", { taker_order_id: "buy-1", size: "3", price: "0.58" });
+  trades.set("t2", { taker_order_id: "other", maker_orders: [{ order_id: "buy-1", matched_amount: "1", price: "0.62" }] });
+
+  await pollOrders(config, silentLogger);
+
+  expect(getTrackedOrders()).toEqual([]);
+  const held = getGuardrailState().openPositions.get(CONDITION)!;
+  expect(held.size).toBe(4);
+  expect(held.entryPrice).toBeCloseTo(0.59, 9);
+  expect(held.costBasis).toBeCloseTo(2.36, 9);
+
+  const log = readTradeLog();
+  expect(log.find((e) => e.type === "fill")).toMatchObject({ orderId: "buy-1", side: "buy", requestedSize: 10, filledSize: 4, status: "partial", note: "canceled" });
+  expect(log.find((e) => e.type === "buy")).toMatchObject({ size: 4, price: 0.59 });
+});
+
+test("leaves a working order alone until it times out, then cancels it and counts a late match", async () => {
+  placeBuy("buy-2");
+  orders.set("buy-2", { status: "LIVE", size_matched: "0", associate_trades: [] });
+  await pollOrders(config, silentLogger);
+  expect(cancelled).toEqual([]);
+  expect(getTrackedOrders()).toHaveLength(1);
+
+  // Past the timeout; 3 shares match between the poll and the cancel
+  getTrackedOrders()[0].placedAt -= 61_000;
+  afterCancel.set("buy-2", { status: "CANCELED", size_matched: "3", associate_trades: [] });
+  await pollOrders(config, silentLogger);
+
+  expect(cancelled).toEqual(["buy-2"]);
+  expect(getTrackedOrders()).toEqual([]);
+  const held = getGuardrailState().openPositions.get(CONDITION)!;
+  expect(held).toMatchObject({ size: 3, entryPrice: 0.6 });
+  expect(held.costBasis).toBeCloseTo(1.8, 9);
+  expect(readTradeLog().find((e) => e.type === "fill")).toMatchObject({ filledSize: 3, status: "partial", note: "cancelled after 60s timeout" });
+});
+
+test("cancels an order near market end, and drops a buy that never filled", async () => {
+  placeBuy("buy-3", { marketEndTime: Math.floor(Date.now() / 1000) + 20 });
+  orders.set("buy-3", { status: "LIVE", size_matched: "0", associate_trades: [] });
+  await pollOrders(config, silentLogger);
+
+  expect(cancelled).toEqual(["buy-3"]);
+  expect(getGuardrailState().openPositions.size).toBe(0);
+  expect(readTradeLog().find((e) => e.type === "fill")).toMatchObject({ filledSize: 0, status: "unfilled", note: "cancelled 30s before market end" });
+  expect(readTradeLog().find((e) => e.type === "buy")).toMatchObject({ size: 0 });
+});
+
+test("keeps polling an order the CLOB returns without a known status", async () => {
+  placeBuy("buy-4");
+  for (const response of [null, {}, { status: "SOMETHING_NEW", size_matched: "0" }]) {
+    orders.set("buy-4", response);
+    await pollOrders(config, silentLogger);
+    expect(getTrackedOrders()).toHaveLength(1);
+    expect(getGuardrailState().openPositions.get(CONDITION)!.size).toBe(10);
+    expect(readTradeLog().some((e) => e.type === "fill")).toBe(false);
+  }
+  expect(cancelled).toEqual([]);
+
+  orders.set("buy-4", { status: "MATCHED", size_matched: "10", associate_trades: [] });
+  await pollOrders(config, silentLogger);
+  expect(getTrackedOrders()).toEqual([]);
+  expect(readTradeLog().find((e) => e.type === "fill")).toMatchObject({ filledSize: 10, status: "filled" });
+});
+
+test("reduces a position being sold only by what the SELL filled", async () => {
+  const p = position();
+  recordTrade(p);
+  logSell({ slug: SLUG, outcome: "Up", price: 0.8, size: 10, proceeds: 8, orderId: "sell-1", exitType: "take-profit", reason: "test" });
+  trackOrder({
+    orderId: "sell-1", side: "SELL", conditionId: CONDITION, slug: SLUG, requestedSize: 10, limitPrice: 0.8,
+    placedAt: Date.now(), marketEndTime: Math.floor(Date.now() / 1000) + 600, position: p,
+  });
+
+  orders.set("sell-1", { status: "LIVE", size_matched: "6", associate_trades: [] });
+  await pollOrders(config, silentLogger);
+  expect(getGuardrailState().openPositions.get(CONDITION)!.size).toBe(10);
+
+  orders.set("sell-1", { status: "CANCELED", size_matched: "6", associate_trades: [] });
+  await pollOrders(config, silentLogger);
+  const held = getGuardrailState().openPositions.get(CONDITION)!;
+  expect(held.size).toBe(4);
+  expect(held.costBasis).toBeCloseTo(2.4, 9);
+  expect(readTradeLog().find((e) => e.type === "sell")).toMatchObject({ size: 6, proceeds: 6 * 0.8 });
+});
+
+test("persists tracked orders and resumes them after a restart", async () => {
+  const file = join(dir, "tracked-orders.json");
+  placeBuy("buy-5");
+  const saved = JSON.parse(readFileSync(file, "utf-8"));
+  expect(saved.orders.map((o: TrackedOrder) => o.orderId)).toEqual(["buy-5"]);
+
+  loadTrackedOrders(silentLogger);
+  expect(getTrackedOrders().map((o) => o.orderId)).toEqual(["buy-5"]);
+
+  orders.set("buy-5", { status: "MATCHED", size_matched: "10", associate_trades: [] });
+  await pollOrders(config, silentLogger);
+  expect(existsSync(file)).toBe(true);
+  expect(JSON.parse(readFileSync(file, "utf-8")).orders).toEqual([]);
+});
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers } from "ethers";
+import { configFromFile } from "../src/config.js";
+import { silentLogger } from "../src/logger.js";
+import { runRedemptionSweep } from "../src/redeemer.js";
+import { readTradeLog, setTradeLogFile } from "../src/trade-log.js";
+import { RpcStub, startRpcStub } from "./rpc-stub.js";
+
+const CTF = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
+const USDC = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
+const NEG_RISK_ADAPTER = "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296";
+const PROXY_FACTORY = "0xaB45c5A4B0c941a2F231C04C3f49182e1A254052";
+const HOLDER = "0x" + "11".repeat(20);
+
+const ctfIface = new ethers.utils.Interface([
+  "function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)",
+  "function balanceOfBatch(address[] owners, uint256[] ids) view returns (uint256[])",
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
+]);
+const adapterIface = new ethers.utils.Interface(["function redeemPositions(bytes32 conditionId, uint256[] amounts)"]);
+const proxyIface = new ethers.utils.Interface([
+  "function proxy(tuple(address to, string typeCode, bytes data, string value)[] calls)",
+]);
+
+const STANDARD = { slug: "btc-updown-15m-1700000100", conditionId: "0x" + "aa".repeat(32), tokenIds: ["101", "102"], negRisk: false };
+const NEG_RISK = { slug: "btc-updown-15m-1700000200", conditionId: "0x" + "bb".repeat(32), tokenIds: ["201", "202"], negRisk: true };
+const balances: Record<string, number> = { "101": 5_000_000, "102": 0, "201": 7_000_000, "202": 3_000_000 };
+
+let rpc: RpcStub;
+let previousLog: string;
+const cwd = process.cwd();
+const realFetch = globalThis.fetch;
+
+beforeAll(() => {
+  process.chdir(mkdtempSync(join(tmpdir(), "redeemer-")));
+  writeFileSync("trades.jsonl", [STANDARD, NEG_RISK].map((m) => JSON.stringify({
+    type: "buy", time: new Date().toISOString(), slug: m.slug, outcome: "Up", price: 0.6, size: 10, cost: 6,
+    orderId: "order", conditionId: m.conditionId, tokenId: m.tokenIds[0], negRisk: m.negRisk,
+  })).join("\n") + "\n");
+
+  // Gamma: both markets resolved Up; nothing else in the lookback window exists
+  globalThis.fetch = (async (url: string | URL | Request) => {
+    const slug = new URL(String(url)).searchParams.get("slug");
+    const m = [STANDARD, NEG_RISK].find((x) => x.slug === slug);
+    if (!m) return Response.json([]);
+    return Response.json([{
+      conditionId: m.conditionId, negRisk: m.negRisk, clobTokenIds: JSON.stringify(m.tokenIds),
+      outcomes: '["Up", "Down"]', outcomePrices: '["1", "0"]',
+    }]);
+  }) as typeof fetch;
+
+  // The CTF: token balances, and the NegRiskAdapter approved as operator
+  rpc = startRpcStub();
+  rpc.onCall = (to, data) => {
+    if (to.toLowerCase() !== CTF.toLowerCase()) return undefined;
+    const method = ctfIface.getFunction(data.slice(0, 10)).name;
+    if (method === "balanceOfBatch") {
+      const [, ids] = ctfIface.decodeFunctionData("balanceOfBatch", data);
+      return ctfIface.encodeFunctionResult("balanceOfBatch", [ids.map((id: ethers.BigNumber) => balances[id.toString()] ?? 0)]);
+    }
+    if (method === "isApprovedForAll") return ctfIface.encodeFunctionResult("isApprovedForAll", [true]);
+    return undefined;
+  };
+  process.env.POLYGON_RPC_URL = rpc.url;
+
+  // As in paper mode: the trade log is the paper ledger, not trades.jsonl
+  previousLog = setTradeLogFile("paper-trades.jsonl");
+});
+
+afterAll(() => {
+  setTradeLogFile(previousLog);
+  rpc.stop();
+  globalThis.fetch = realFetch;
+  delete process.env.POLYGON_RPC_URL;
+  process.chdir(cwd);
+});
+
+test("redeems standard markets through the CTF and neg-risk markets through the adapter", async () => {
+  const config = configFromFile(
+    { series: ["btc-15m"], redeemer: { lookbackHours: 0 }, gas: { pollIntervalMs: 20 } },
+    { POLYMARKET_PRIVATE_KEY: ethers.Wallet.createRandom().privateKey, POLYMARKET_FUNDER_ADDRESS: HOLDER },
+  );
+  expect(await runRedemptionSweep(config, silentLogger)).toBe(true);
+
+  // One proxy-wallet transaction carrying both redemptions
+  expect(rpc.sent).toHaveLength(1);
+  expect(rpc.sent[0].to).toBe(PROXY_FACTORY);
+  const [calls] = proxyIface.decodeFunctionData("proxy", rpc.sent[0].data);
+  expect(calls).toHaveLength(2);
+
+  const ctfCall = calls.find((c: any) => c.to === CTF);
+  const ctfArgs = ctfIface.decodeFunctionData("redeemPositions", ctfCall.data);
+  expect(ctfArgs.collateralToken).toBe(USDC);
+  expect(ctfArgs.parentCollectionId).toBe(ethers.constants.HashZero);
+  expect(ctfArgs.conditionId).toBe(STANDARD.conditionId);
+  expect(ctfArgs.indexSets.map(String)).toEqual(["1", "2"]);
+
+  const adapterCall = calls.find((c: any) => c.to === NEG_RISK_ADAPTER);
+  const adapterArgs = adapterIface.decodeFunctionData("redeemPositions", adapterCall.data);
+  expect(adapterArgs.conditionId).toBe(NEG_RISK.conditionId);
+  expect(adapterArgs.amounts.map(String)).toEqual(["7000000", "3000000"]);
+
+  const state = JSON.parse(readFileSync("redemption-state.json", "utf-8"));
+  const statuses = Object.fromEntries(state.conditions.map((r: any) => [r.conditionId, r.status]));
+  expect(statuses).toEqual({ [STANDARD.conditionId]: "confirmed", [NEG_RISK.conditionId]: "confirmed" });
+
+  // Resolutions go to trades.jsonl, next to the buys they settle
+  const resolutions = readTradeLog("trades.jsonl").filter((e) => e.type === "resolution").map((e) => e.slug);
+  expect(resolutions.sort()).toEqual([STANDARD.slug, NEG_RISK.slug]);
+  expect(readTradeLog("paper-trades.jsonl")).toEqual([]);
+}, 30_000);
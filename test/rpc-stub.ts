@@ -0,0 +1,127 @@
+/**
+ * A Polygon JSON-RPC stand-in for tests, served locally with Bun.serve.
+ *
+ * Answers what ethers' JsonRpcProvider and Wallet need to estimate, sign,
+ * send and wait for transactions. Every block number read advances the
+ * chain by one block. Sent transactions are kept in `sent`; they get a
+ * receipt while `mining` is on, and none otherwise. Contract reads go to
+ * `onCall`, so each test mocks the contracts it talks to.
+ */
+
+import { ethers } from "ethers";
+
+export interface RpcStub {
+  url: string;
+  sent: ethers.Transaction[];          // Every raw tx received, in order
+  mining: boolean;                     // Give sent txs a receipt (default true)
+  revert: boolean;                     // Mined txs fail (status 0)
+  baseFeeGwei: number;
+  priorityFeeGwei: number | null;      // null = eth_maxPriorityFeePerGas unsupported
+  estimateGas: () => number;           // Throw to fail the estimate
+  pendingCount: (() => number) | null; // Override eth_getTransactionCount
+  onCall: (to: string, data: string) => string | undefined; // eth_call result
+  stop: () => void;
+}
+
+const ZERO_32 = "0x" + "0".repeat(64);
+
+const hex = (n: number | bigint) => "0x" + n.toString(16);
+const gwei = (n: number) => BigInt(Math.round(n * 1e9));
+
+export function startRpcStub(): RpcStub {
+  let block = 100;
+  const receipts = new Map<string, { status: number; block: number }>(); // Tx hash -> receipt
+
+  const stub: RpcStub = {
+    url: "",
+    sent: [],
+    mining: true,
+    revert: false,
+    baseFeeGwei: 100,
+    priorityFeeGwei: 30,
+    estimateGas: () => 100_000,
+    pendingCount: null,
+    onCall: () => undefined,
+    stop: () => server.stop(true),
+  };
+
+  const handle = (method: string, params: any[]): { result?: unknown; error?: unknown } => {
+    switch (method) {
+      case "eth_chainId": return { result: hex(137) };
+      case "net_version": return { result: "137" };
+      case "eth_blockNumber": return { result: hex(++block) };
+      case "eth_getBalance": return { result: hex(10n ** 18n) };
+      case "eth_gasPrice": return { result: hex(gwei(stub.baseFeeGwei)) };
+      case "eth_maxPriorityFeePerGas":
+        if (stub.priorityFeeGwei === null) return { error: { code: -32601, message: "method not found" } };
+        return { result: hex(gwei(stub.priorityFeeGwei)) };
+      case "eth_getTransactionCount": {
+        const count = stub.pendingCount ? stub.pendingCount() : new Set(stub.sent.map((t) => t.nonce)).size;
+        return { result: hex(count) };
+      }
+      case "eth_estimateGas":
+        try {
+          return { result: hex(stub.estimateGas()) };
+        } catch (err: any) {
+          return { error: { code: err.code ?? -32000, message: err.message, data: err.data } };
+        }
+      case "eth_getBlockByNumber":
+        return {
+          result: {
+            number: hex(block), hash: "0x" + "cd".repeat(32), parentHash: ZERO_32,
+            timestamp: hex(Math.floor(Date.now() / 1000)), nonce: "0x0000000000000000", difficulty: "0x0",
+            gasLimit: hex(30_000_000), gasUsed: "0x0", miner: "0x" + "0".repeat(40), extraData: "0x",
+            baseFeePerGas: hex(gwei(stub.baseFeeGwei)), transactions: [],
+          },
+        };
+      case "eth_call": {
+        const result = stub.onCall(params[0].to, params[0].data);
+        return result === undefined ? { error: { code: -32000, message: "execution reverted" } } : { result };
+      }
+      case "eth_sendRawTransaction": {
+        const tx = ethers.utils.parseTransaction(params[0]);
+        stub.sent.push(tx);
+        if (stub.mining) receipts.set(tx.hash!, { status: stub.revert ? 0 : 1, block });
+        return { result: tx.hash };
+      }
+      case "eth_getTransactionReceipt": {
+        const r = receipts.get(params[0]);
+        const tx = stub.sent.find((t) => t.hash === params[0]);
+        if (!r || !tx) return { result: null };
+        return {
+          result: {
+            transactionHash: tx.hash, blockHash: "0x" + "ab".repeat(32), blockNumber: hex(r.block), transactionIndex: "0x0",
+            from: tx.from, to: tx.to, contractAddress: null, gasUsed: hex(21_000), cumulativeGasUsed: hex(21_000),
+            effectiveGasPrice: hex(gwei(stub.baseFeeGwei)), logsBloom: "0x" + "0".repeat(512), logs: [],
+            status: hex(r.status), type: hex(tx.type ?? 0),
+          },
+        };
+      }
+      case "eth_getTransactionByHash": {
+        const tx = stub.sent.find((t) => t.hash === params[0]);
+        if (!tx) return { result: null };
+        return {
+          result: {
+            hash: tx.hash, from: tx.from, to: tx.to, nonce: hex(tx.nonce), gas: tx.gasLimit.toHexString(),
+            maxFeePerGas: tx.maxFeePerGas?.toHexString(), maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toHexString(),
+            input: tx.data, value: "0x0", v: hex(tx.v ?? 0), r: tx.r, s: tx.s, chainId: hex(137), type: hex(tx.type ?? 0),
+            blockHash: null, blockNumber: null, transactionIndex: null,
+          },
+        };
+      }
+      default:
+        return { error: { code: -32601, message: `Unsupported method ${method}` } };
+    }
+  };
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body: any = await req.json();
+      const one = (r: any) => ({ jsonrpc: "2.0", id: r.id, ...handle(r.method, r.params ?? []) });
+      return Response.json(Array.isArray(body) ? body.map(one) : one(body));
+    },
+  });
+  stub.url = `http://localhost:${server.port}`;
+  return stub;
+}
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, beforeEach, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SizingConfig, TraderConfig, resolveConfig } from "../src/config.js";
+import { recordTrade, resetGuardrailState, setGuardrailStateFile } from "../src/guardrails.js";
+import { computeStake } from "../src/sizing.js";
+import { setTradeLogFile } from "../src/trade-log.js";
+
+let previousLog: string;
+let previousState: string | null;
+let logFile: string;
+
+function config(sizing: Partial<SizingConfig>, overrides: Record<string, unknown> = {}): TraderConfig {
+  return resolveConfig({
+    dryRun: true,
+    maxOrderSize: 100,
+    maxPositionSize: 500,
+    paper: { startingBalance: 1000 },
+    sizing,
+    ...overrides,
+  });
+}
+
+beforeAll(() => {
+  // The bankroll in dry-run is the paper balance, read from the trade log
+  logFile = join(mkdtempSync(join(tmpdir(), "sizing-")), "paper-trades.jsonl");
+  previousLog = setTradeLogFile(logFile);
+  previousState = setGuardrailStateFile(null);
+});
+
+beforeEach(() => {
+  writeFileSync(logFile, "");
+  resetGuardrailState();
+});
+
+afterAll(() => {
+  setTradeLogFile(previousLog);
+  setGuardrailStateFile(previousState);
+  resetGuardrailState();
+});
+
+test("fixed mode stakes fixedUsdc, or maxOrderSize by default", async () => {
+  expect(await computeStake(config({ mode: "fixed", fixedUsdc: 25 }), 0.6, undefined)).toEqual({ stake: 25, basis: "fixed $25.00" });
+  expect(await computeStake(config({ mode: "fixed" }), 0.6, undefined)).toEqual({ stake: 100, basis: "fixed $100.00" });
+});
+
+test("fraction mode stakes a fraction of the paper balance", async () => {
+  expect(await computeStake(config({ mode: "fraction", fraction: 0.05 }), 0.6, undefined))
+    .toEqual({ stake: 50, basis: "5.0% of $1000.00" });
+
+  // A $100 buy that lost leaves $900
+  writeFileSync(logFile, [
+    { type: "buy", time: "2026-01-01T00:00:00.000Z", slug: "btc-updown-15m-1767225600", outcome: "Up", price: 0.5, size: 200, cost: 100, orderId: "a" },
+    { type: "resolution", time: "2026-01-01T00:15:00.000Z", slug: "btc-updown-15m-1767225600", resolved: "Down" },
+  ].map((e) => JSON.stringify(e)).join("\n") + "\n");
+  const result = await computeStake(config({ mode: "fraction", fraction: 0.05 }), 0.6, undefined);
+  expect(result).toEqual({ stake: 45, basis: "5.0% of $900.00" });
+});
+
+test("kelly mode stakes kellyFraction of the Kelly fraction of the balance", async () => {
+  // q = 0.7 at p = 0.6: Kelly (0.7 - 0.6) / 0.4 = 25%; quarter Kelly of $1000 = $62.50
+  const result = await computeStake(config({ mode: "kelly", kellyFraction: 0.25 }), 0.6, 0.7);
+  expect(typeof result).toBe("object");
+  const { stake, basis } = result as { stake: number; basis: string };
+  expect(stake).toBeCloseTo(62.5, 9);
+  expect(basis).toBe("0.25× Kelly 25.0% of $1000.00");
+});
+
+test("kelly mode skips entries without an edge or a win probability", async () => {
+  const kelly = config({ mode: "kelly" });
+  expect(await computeStake(kelly, 0.6, 0.55)).toBe("No Kelly edge: win probability 0.550 <= price $0.600");
+  expect(await computeStake(kelly, 0.6, undefined)).toBe("Win probability unavailable for Kelly sizing");
+  expect(await computeStake(kelly, 1, 0.99)).toBe("Can't Kelly-size at price $1.000");
+});
+
+test("caps stakes at maxOrderSize and the room under maxPositionSize", async () => {
+  const full = config({ mode: "kelly", kellyFraction: 1 }, { maxOrderSize: 100, maxPositionSize: 500 });
+  expect(await computeStake(full, 0.5, 0.9)).toEqual({
+    stake: 100,
+    basis: "1× Kelly 80.0% of $1000.00, capped at max order $100",
+  });
+
+  recordTrade({
+    conditionId: "0x01", tokenId: "1", outcome: "Up", entryPrice: 0.5, size: 940, costBasis: 470,
+    entryTime: Date.now(), marketSlug: "btc-updown-15m-1767225600", negRisk: false,
+  });
+  expect(await computeStake(config({ mode: "fixed", fixedUsdc: 50 }), 0.6, undefined))
+    .toEqual({ stake: 30, basis: "fixed $50.00, capped at $30.00 position room" });
+});
+
+test("skips stakes below minOrderUsdc", async () => {
+  expect(await computeStake(config({ mode: "fraction", fraction: 0.0005, minOrderUsdc: 1 }), 0.6, undefined))
+    .toBe("Stake $0.50 (0.1% of $1000.00) < min order $1.00");
+});
@@ -0,0 +1,125 @@
+import { afterAll, beforeEach, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { GasConfig, resolveConfig } from "../src/config.js";
+import { silentLogger } from "../src/logger.js";
+import { estimateFees, sendTransaction } from "../src/tx-sender.js";
+import { RpcStub, startRpcStub } from "./rpc-stub.js";
+
+const rpc: RpcStub = startRpcStub();
+const provider = new ethers.providers.StaticJsonRpcProvider(rpc.url, 137);
+const REQUEST = { to: "0x" + "22".repeat(20), data: "0x1234" };
+
+const gwei = (x: ethers.BigNumber) => Number(ethers.utils.formatUnits(x, "gwei"));
+
+function gasConfig(overrides: Partial<GasConfig> = {}): GasConfig {
+  return { ...resolveConfig({}).gas, pollIntervalMs: 20, ...overrides };
+}
+
+// A fresh wallet per test, so no test sees another's local nonces
+const newWallet = () => ethers.Wallet.createRandom().connect(provider);
+
+beforeEach(() => {
+  rpc.sent.length = 0;
+  rpc.mining = true;
+  rpc.baseFeeGwei = 100;
+  rpc.priorityFeeGwei = 30;
+  rpc.estimateGas = () => 100_000;
+  rpc.pendingCount = null;
+});
+
+afterAll(() => rpc.stop());
+
+test("clamps the priority fee to its floor and cap", async () => {
+  rpc.priorityFeeGwei = 5;
+  let fees = await estimateFees(provider, gasConfig());
+  expect(gwei(fees.maxPriorityFeePerGas)).toBe(30);
+  expect(gwei(fees.maxFeePerGas)).toBe(2 * 100 + 30);
+
+  rpc.priorityFeeGwei = 250;
+  fees = await estimateFees(provider, gasConfig());
+  expect(gwei(fees.maxPriorityFeePerGas)).toBe(100);
+  expect(gwei(fees.maxFeePerGas)).toBe(2 * 100 + 100);
+
+  rpc.priorityFeeGwei = null;
+  fees = await estimateFees(provider, gasConfig());
+  expect(gwei(fees.maxPriorityFeePerGas)).toBe(30);
+});
+
+test("caps the max fee at maxFeeGwei", async () => {
+  rpc.baseFeeGwei = 400;
+  let fees = await estimateFees(provider, gasConfig());
+  expect(gwei(fees.maxFeePerGas)).toBe(500);
+  expect(gwei(fees.maxPriorityFeePerGas)).toBe(30);
+
+  // The tip never exceeds the max fee
+  fees = await estimateFees(provider, gasConfig({ maxFeeGwei: 20 }));
+  expect(gwei(fees.maxFeePerGas)).toBe(20);
+  expect(gwei(fees.maxPriorityFeePerGas)).toBe(20);
+});
+
+test("hands concurrent sends distinct nonces when the node's pending count lags", async () => {
+  rpc.pendingCount = () => 0;
+  const wallet = newWallet();
+  const results = await Promise.all([1, 2, 3].map(() => sendTransaction(wallet, REQUEST, gasConfig(), silentLogger)));
+
+  expect(rpc.sent.map((t) => t.nonce)).toEqual([0, 1, 2]);
+  expect(results.every((r) => r.receipt?.status === 1)).toBe(true);
+});
+
+test("adds gasLimitMultiplier headroom to the estimate", async () => {
+  await sendTransaction(newWallet(), REQUEST, gasConfig({ gasLimitMultiplier: 1.5 }), silentLogger);
+  expect(rpc.sent[0].gasLimit.toNumber()).toBe(150_000);
+});
+
+test("falls back to fallbackGasLimit when the estimate fails", async () => {
+  rpc.estimateGas = () => { throw new Error("request timed out"); };
+  const result = await sendTransaction(newWallet(), REQUEST, gasConfig({ fallbackGasLimit: 750_000 }), silentLogger);
+
+  expect(rpc.sent[0].gasLimit.toNumber()).toBe(750_000);
+  expect(result.receipt?.status).toBe(1);
+});
+
+test("doesn't send a call that would revert", async () => {
+  rpc.estimateGas = () => { throw Object.assign(new Error("execution reverted"), { code: 3, data: "0x" }); };
+  await expect(sendTransaction(newWallet(), REQUEST, gasConfig(), silentLogger)).rejects.toThrow();
+  expect(rpc.sent).toHaveLength(0);
+});
+
+test("replaces a stuck tx at the same nonce with bumped fees", async () => {
+  rpc.mining = false;
+  const hashes: string[] = [];
+  const gas = gasConfig({ replaceAfterBlocks: 1, maxReplacements: 2, feeBumpPct: 0.2 });
+  const result = await sendTransaction(newWallet(), REQUEST, gas, silentLogger, (h) => hashes.push(h));
+
+  expect(result.receipt).toBeNull();
+  expect(rpc.sent).toHaveLength(3);
+  expect(result.txHashes).toEqual(hashes);
+  expect(result.txHash).toBe(hashes[2]);
+  expect(new Set(rpc.sent.map((t) => t.nonce)).size).toBe(1);
+  for (let i = 1; i < rpc.sent.length; i++) {
+    const [prev, next] = [rpc.sent[i - 1], rpc.sent[i]];
+    expect(next.maxFeePerGas!.gte(prev.maxFeePerGas!.mul(120).div(100))).toBe(true);
+    expect(next.maxPriorityFeePerGas!.gte(prev.maxPriorityFeePerGas!.mul(120).div(100))).toBe(true);
+  }
+});
+
+test("settles on whichever version of a replaced tx is mined", async () => {
+  rpc.mining = false;
+  const gas = gasConfig({ replaceAfterBlocks: 1, maxReplacements: 3 });
+  // Only the first replacement gets mined
+  const result = await sendTransaction(newWallet(), REQUEST, gas, silentLogger, () => { rpc.mining = rpc.sent.length === 1; });
+
+  expect(rpc.sent).toHaveLength(2);
+  expect(result.receipt?.status).toBe(1);
+  expect(result.txHash).toBe(rpc.sent[1].hash!);
+  expect(result.txHashes).toEqual(rpc.sent.map((t) => t.hash!));
+});
+
+test("leaves a tx unreplaced when a bump would pass maxFeeGwei", async () => {
+  rpc.mining = false;
+  const gas = gasConfig({ maxFeeGwei: 240, replaceAfterBlocks: 1, maxReplacements: 1 });
+  const result = await sendTransaction(newWallet(), REQUEST, gas, silentLogger);
+
+  expect(result.receipt).toBeNull();
+  expect(rpc.sent).toHaveLength(1);
+});